@@ -0,0 +1,46 @@
+import winston from 'winston';
+import { getRequestId } from './context';
+
+/**
+ * Support for Lambda Advanced Logging Controls:
+ * AWS_LAMBDA_LOG_FORMAT ('JSON' | 'Text') and AWS_LAMBDA_LOG_LEVEL.
+ */
+
+// Lambda application log levels mapped onto the levels this logger emits
+const LAMBDA_LEVEL_MAP: Record<string, string> = {
+    TRACE: 'debug',
+    DEBUG: 'debug',
+    INFO: 'info',
+    WARN: 'warn',
+    ERROR: 'error',
+    FATAL: 'error',
+};
+
+/**
+ * Returns the Winston level configured through AWS_LAMBDA_LOG_LEVEL, if any.
+ */
+export const getLambdaLogLevel = (): string | undefined => {
+    const level = process.env.AWS_LAMBDA_LOG_LEVEL?.toUpperCase();
+    return level ? LAMBDA_LEVEL_MAP[level] : undefined;
+};
+
+/**
+ * True when the function is configured with AWS_LAMBDA_LOG_FORMAT=JSON.
+ */
+export const isLambdaJsonLogFormat = (): boolean => {
+    return process.env.AWS_LAMBDA_LOG_FORMAT?.toUpperCase() === 'JSON';
+};
+
+/**
+ * Shapes records the way Lambda's JSON log format and Logs Insights expect:
+ * uppercase 'level' and a top-level 'requestId', taken from the async context when not bound.
+ * Must run after the level has been used for filtering (Winston keeps it under a symbol).
+ */
+export const lambdaJsonFieldsFormat = winston.format((info) => {
+    info.level = info.level.toUpperCase();
+    if (info.requestId === undefined) {
+        const requestId = getRequestId();
+        if (requestId) info.requestId = requestId;
+    }
+    return info;
+});
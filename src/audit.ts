@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import winston from 'winston';
+import { AuditLogger, AuditOutcome, AuditRecord } from './types';
+import { getCorrelationId, getRequestId } from './context';
+import { RedactionConfig, createRedactor, sha256Hex, stableStringify } from './redactor';
+
+export interface CreateAuditLoggerOptions {
+    /**
+     * Winston transports to write to (default: a single Console transport)
+     */
+    transports?: winston.transport[];
+    /**
+     * Redaction applied to each record before it is hashed, so the written line verifies
+     */
+    redaction?: RedactionConfig;
+    /**
+     * Chain identifier (default: a random UUID per audit logger)
+     */
+    chainId?: string;
+}
+
+/**
+ * 'previousHash' of the first record of every chain
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * JSON.stringify replacer that never throws: bigints become strings and cycles '[Circular]'.
+ * Only objects on the current path count as cycles, so a value shared by siblings is kept.
+ */
+const createJsonSafeReplacer = () => {
+    const ancestors: any[] = [];
+    return function (this: any, _key: string, value: any) {
+        if (typeof value === 'bigint') return value.toString();
+        if (value === null || typeof value !== 'object') return value;
+
+        // 'this' is the object holding the current key: unwind to it
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+            ancestors.pop();
+        }
+        if (ancestors.includes(value)) return '[Circular]';
+        ancestors.push(value);
+        return value;
+    };
+};
+
+const hashAuditRecord = (record: Omit<AuditRecord, 'hash'>): string => {
+    return sha256Hex(stableStringify(record));
+};
+
+/**
+ * Creates the audit channel. It has its own Winston instance: no sampling, no level filtering,
+ * no size limits, and each line is exactly the hashed record.
+ *
+ * @param options Transports, redaction and chain ID
+ */
+export const createAuditLogger = (options: CreateAuditLoggerOptions = {}): AuditLogger => {
+    const chainId = options.chainId ?? crypto.randomUUID();
+    const redactor = options.redaction ? createRedactor(options.redaction) : null;
+    const winstonLogger = winston.createLogger({
+        level: 'info',
+        format: winston.format.json(),
+        transports: options.transports || [new winston.transports.Console()],
+    });
+
+    let sequence = 0;
+    let previousHash = AUDIT_GENESIS_HASH;
+
+    return {
+        audit: (
+            action: string,
+            actor: string,
+            resource: string,
+            outcome: AuditOutcome,
+            details?: Record<string, any>,
+        ): AuditRecord => {
+            const requestId = getRequestId();
+            const correlationId = getCorrelationId();
+            let fields: Record<string, any> = {
+                action,
+                actor,
+                resource,
+                outcome,
+                ...(details !== undefined ? { details } : {}),
+                ...(requestId ? { requestId } : {}),
+                ...(correlationId ? { correlationId } : {}),
+            };
+            if (redactor) fields = redactor(fields);
+            // Hash what the verifier parses back: Dates as ISO strings, undefined in arrays as null
+            fields = JSON.parse(JSON.stringify(fields, createJsonSafeReplacer()));
+
+            // Chain fields are set after redaction so no rule can alter them
+            sequence += 1;
+            const unhashed: Omit<AuditRecord, 'hash'> = {
+                ...(fields as Pick<AuditRecord, 'action' | 'actor' | 'resource' | 'outcome'>),
+                logType: 'audit',
+                level: 'info',
+                message: 'Audit',
+                chainId,
+                sequence,
+                timestamp: new Date().toISOString(),
+                previousHash,
+            };
+            const record: AuditRecord = { ...unhashed, hash: hashAuditRecord(unhashed) };
+            previousHash = record.hash;
+
+            winstonLogger.log({ ...record });
+            return record;
+        },
+    };
+};
+
+export type AuditChainErrorReason = 'unparsable' | 'sequence-gap' | 'chain-broken' | 'tampered';
+
+export interface AuditChainError {
+    /**
+     * Position of the offending line in the input
+     */
+    index: number;
+    chainId?: string;
+    sequence?: number;
+    reason: AuditChainErrorReason;
+}
+
+export interface AuditChainVerification {
+    valid: boolean;
+    /**
+     * Number of audit records checked
+     */
+    verified: number;
+    errors: AuditChainError[];
+}
+
+export interface VerifyAuditChainOptions {
+    /**
+     * Require every chain to start at sequence 1 with the genesis hash (default: false,
+     * so an export can start in the middle of a chain)
+     */
+    requireGenesis?: boolean;
+}
+
+const parseAuditLine = (line: string | Record<string, any>): Record<string, any> | undefined => {
+    if (typeof line !== 'string') return line;
+    try {
+        const parsed = JSON.parse(line);
+        return parsed !== null && typeof parsed === 'object' ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Checks exported audit lines (JSON strings or parsed records) for gaps and tampering.
+ * Lines that are not audit records are skipped, so a whole log stream can be passed in.
+ * Chains are checked independently, in the order their records appear.
+ */
+export const verifyAuditChain = (
+    lines: (string | Record<string, any>)[],
+    options: VerifyAuditChainOptions = {},
+): AuditChainVerification => {
+    const errors: AuditChainError[] = [];
+    const lastByChain = new Map<string, { sequence: number; hash: string }>();
+    let verified = 0;
+
+    lines.forEach((line, index) => {
+        const record = parseAuditLine(line);
+        if (!record) {
+            // An audit line that no longer parses was damaged; other noise is ignored
+            if (typeof line === 'string' && line.includes('"logType":"audit"')) {
+                errors.push({ index, reason: 'unparsable' });
+            }
+            return;
+        }
+        if (record.logType !== 'audit') return;
+        verified += 1;
+
+        const { hash, ...unhashed } = record;
+        const { chainId, sequence, previousHash } = record;
+        const report = (reason: AuditChainErrorReason) =>
+            errors.push({ index, chainId, sequence, reason });
+
+        if (hash !== hashAuditRecord(unhashed as Omit<AuditRecord, 'hash'>)) {
+            report('tampered');
+        }
+
+        const last = lastByChain.get(chainId);
+        if (last) {
+            if (sequence !== last.sequence + 1) report('sequence-gap');
+            else if (previousHash !== last.hash) report('chain-broken');
+        } else if (options.requireGenesis) {
+            if (sequence !== 1) report('sequence-gap');
+            else if (previousHash !== AUDIT_GENESIS_HASH) report('chain-broken');
+        }
+        lastByChain.set(chainId, { sequence, hash });
+    });
+
+    return { valid: errors.length === 0, verified, errors };
+};
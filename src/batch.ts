@@ -0,0 +1,104 @@
+import { getCorrelationId, getLogger, getRequestId, runWithLogger } from './context';
+import { extractCorrelationId } from './correlation';
+import { WithLoggerOptions, withLogger } from './wrapper';
+
+export type RecordHandler<TRecord = any> = (
+    record: TRecord,
+    index: number,
+    context: any,
+) => Promise<void> | void;
+
+/**
+ * Partial batch response understood by Lambda when 'ReportBatchItemFailures' is enabled.
+ */
+export interface BatchResponse {
+    batchItemFailures: { itemIdentifier: string }[];
+}
+
+export interface WithBatchLoggerOptions extends WithLoggerOptions {
+    /**
+     * Stop processing at the first failing record and report every remaining record as failed.
+     * Use for SQS FIFO queues and ordered streams. Default: false
+     */
+    stopOnFirstFailure?: boolean;
+}
+
+/**
+ * Returns the identifier Lambda expects in 'batchItemFailures' for the given record:
+ * the SQS message ID, or the Kinesis / DynamoDB Streams sequence number.
+ */
+export const getRecordIdentifier = (record: any): string | undefined => {
+    return record?.messageId ?? record?.kinesis?.sequenceNumber ?? record?.dynamodb?.SequenceNumber;
+};
+
+/**
+ * Companion to withLogger for SQS, Kinesis and DynamoDB Streams batch handlers.
+ * Each record is processed in its own logger context, bound to the record identifier and index.
+ * Failing records are logged and returned in the partial batch response instead of failing
+ * the whole batch.
+ *
+ * @param recordHandler Handler invoked once per record in 'event.Records'
+ * @param options Logger options (level, redaction, etc.)
+ */
+export const withBatchLogger = <TRecord = any>(
+    recordHandler: RecordHandler<TRecord>,
+    options: WithBatchLoggerOptions = {},
+) => {
+    return withLogger<{ Records?: TRecord[] }, BatchResponse>(async (event, context) => {
+        const records = Array.isArray(event?.Records) ? event.Records : [];
+        const batchItemFailures: BatchResponse['batchItemFailures'] = [];
+
+        // withLogger guarantees we are inside an invocation context here
+        const invocationLogger = getLogger()!;
+        const requestId = getRequestId();
+        const invocationCorrelationId = getCorrelationId();
+
+        // Lambda treats an empty identifier as a failure of the whole batch,
+        // which is the safe outcome for records we cannot identify
+        const reportFailure = (recordId?: string) => {
+            batchItemFailures.push({ itemIdentifier: recordId ?? '' });
+        };
+
+        let failed = false;
+        for (const [index, record] of records.entries()) {
+            const recordId = getRecordIdentifier(record);
+
+            if (failed && options.stopOnFirstFailure) {
+                reportFailure(recordId);
+                continue;
+            }
+
+            const correlationId = extractCorrelationId(record) || invocationCorrelationId;
+            const recordLogger = invocationLogger.child({
+                recordId,
+                recordIndex: index,
+                ...(correlationId && correlationId !== invocationCorrelationId
+                    ? { correlationId }
+                    : {}),
+            });
+
+            await runWithLogger(
+                recordLogger,
+                async () => {
+                    try {
+                        await recordHandler(record, index, context);
+                    } catch (error) {
+                        failed = true;
+                        recordLogger.error('Batch record failed', error as Error);
+                        reportFailure(recordId);
+                    }
+                },
+                { requestId, correlationId },
+            );
+        }
+
+        if (batchItemFailures.length > 0) {
+            invocationLogger.warn('Batch completed with failures', {
+                recordCount: records.length,
+                failureCount: batchItemFailures.length,
+            });
+        }
+
+        return { batchItemFailures };
+    }, options);
+};
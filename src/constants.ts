@@ -1,2 +1,6 @@
 export const DEFAULT_LOG_LEVEL = 'info';
 export const REQUEST_ID_KEY = 'x-request-id';
+export const CORRELATION_ID_KEY = 'x-correlation-id';
+export const TRACEPARENT_KEY = 'traceparent';
+export const DEFAULT_METRICS_NAMESPACE = 'Application';
+export const DEBUG_HEADER_KEY = 'x-debug';
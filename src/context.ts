@@ -1,28 +1,90 @@
 import { AsyncLocalStorage } from 'async_hooks';
-import { Logger } from './types';
+import crypto from 'crypto';
+import { Logger, Metrics } from './types';
+import { LogBuffer } from './log-buffer';
+import { assertValidLogLevel } from './log-level';
+
+/**
+ * State bound to a logger context alongside the logger itself.
+ */
+export interface LoggerContextOptions {
+    /**
+     * Per-invocation request ID (e.g. the Lambda awsRequestId)
+     */
+    requestId?: string;
+    /**
+     * Correlation ID shared by every service handling the same user request
+     */
+    correlationId?: string;
+    /**
+     * Metrics collected for the current invocation
+     */
+    metrics?: Metrics;
+    /**
+     * Log level override for this context only (e.g. 'debug' for a single request).
+     * Takes precedence over the level of any logger used inside the context.
+     */
+    level?: string;
+    /**
+     * Number in [0, 1) behind every sampling decision of the context.
+     * Default: derived from the correlation ID (or request ID) on first use.
+     */
+    samplingSeed?: number;
+    /**
+     * Buffer for debug records below the logger level, flushed on error
+     */
+    logBuffer?: LogBuffer;
+    /**
+     * ID of the span opened by logger.withSpan() around the current context
+     */
+    spanId?: string;
+}
 
 // We store a reference to the logger so we can update it in-place for the current context
-interface LoggerStore {
+interface LoggerStore extends LoggerContextOptions {
     logger: Logger;
-    requestId?: string;
 }
 
 const asyncLocalStorage = new AsyncLocalStorage<LoggerStore>();
 
+// An unknown level would make every record fail the level check, errors included
+const normalizeContextLogLevel = (level: string): string => {
+    const normalized = level.toLowerCase();
+    assertValidLogLevel(normalized);
+    return normalized;
+};
+
 /**
  * Runs a callback within a logger context.
  * The logger provided becomes the "current" logger for the duration of the callback.
+ * The third argument is either the request ID or an object with the context state.
+ * Nested contexts inherit the state of the enclosing context unless it is overridden.
+ * A 'level' override is lower-cased; an unknown level throws.
  */
-export const runWithLogger = <T>(logger: Logger, callback: () => T, requestId?: string): T => {
-    return asyncLocalStorage.run({ logger, requestId }, callback);
+export const runWithLogger = <T>(
+    logger: Logger,
+    callback: () => T,
+    options?: string | LoggerContextOptions,
+): T => {
+    const parent = asyncLocalStorage.getStore();
+    const overrides = typeof options === 'string' ? { requestId: options } : options || {};
+    const store: LoggerStore = { ...parent, logger };
+    for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) (store as Record<string, any>)[key] = value;
+    }
+    if (overrides.level !== undefined) store.level = normalizeContextLogLevel(overrides.level);
+    return asyncLocalStorage.run(store, callback);
 };
 
 /**
  * Gets the current logger from the async context.
+ * The type argument only narrows the accepted context keys (see Logger<TContext>).
  */
-export const getLogger = (): Logger | undefined => {
+export const getLogger = <TContext extends object = Record<string, any>>():
+    | Logger<TContext>
+    | undefined => {
     const store = asyncLocalStorage.getStore();
-    return store?.logger;
+    return store?.logger as Logger<TContext> | undefined;
 };
 
 /**
@@ -33,16 +95,103 @@ export const getRequestId = (): string | undefined => {
     return store?.requestId;
 };
 
+/**
+ * Gets the current correlation ID from the async context.
+ */
+export const getCorrelationId = (): string | undefined => {
+    const store = asyncLocalStorage.getStore();
+    return store?.correlationId;
+};
+
+/**
+ * Gets the metrics collector of the current invocation from the async context.
+ */
+export const getMetrics = (): Metrics | undefined => {
+    const store = asyncLocalStorage.getStore();
+    return store?.metrics;
+};
+
+/**
+ * Gets the log level override of the current context, if any.
+ */
+export const getContextLogLevel = (): string | undefined => {
+    const store = asyncLocalStorage.getStore();
+    return store?.level;
+};
+
+/**
+ * Overrides the log level for the remainder of the current context only.
+ * Pass undefined to go back to the level of each logger. Throws on an unknown level.
+ */
+export const setContextLogLevel = (level: string | undefined): void => {
+    const store = asyncLocalStorage.getStore();
+    if (store) {
+        store.level = level === undefined ? undefined : normalizeContextLogLevel(level);
+    } else {
+        console.warn(
+            'AntigravityLogger: setContextLogLevel called outside of an active context. Logic ignored.',
+        );
+    }
+};
+
+/**
+ * Gets the debug log buffer of the current context, if buffering is enabled.
+ */
+export const getLogBuffer = (): LogBuffer | undefined => {
+    const store = asyncLocalStorage.getStore();
+    return store?.logBuffer;
+};
+
+/**
+ * Gets the ID of the innermost span opened with logger.withSpan(), if any.
+ */
+export const getSpanId = (): string | undefined => {
+    const store = asyncLocalStorage.getStore();
+    return store?.spanId;
+};
+
+/**
+ * Maps an ID to a stable number in [0, 1), so every service and child logger handling
+ * the same request makes the same sampling decision.
+ */
+const seedFromId = (id: string): number => {
+    const hex = crypto.createHash('sha256').update(id).digest('hex').slice(0, 8);
+    return parseInt(hex, 16) / 0x100000000;
+};
+
+/**
+ * Gets the sampling seed of the current context, computing and storing it on first use.
+ * Returns undefined outside of a context.
+ */
+export const getSamplingSeed = (): number | undefined => {
+    const store = asyncLocalStorage.getStore();
+    if (!store) return undefined;
+
+    if (store.samplingSeed === undefined) {
+        const id = store.correlationId ?? store.requestId;
+        store.samplingSeed = id ? seedFromId(id) : Math.random();
+    }
+    return store.samplingSeed;
+};
+
+/**
+ * Replaces the current context's logger, like updateLoggerContext, without warning.
+ * Returns false when called outside of an active context.
+ */
+export const tryUpdateLoggerContext = (newLogger: Logger): boolean => {
+    const store = asyncLocalStorage.getStore();
+    if (!store) return false;
+    store.logger = newLogger;
+    return true;
+};
+
 /**
  * Updates the current context's logger.
  * This effectively "extends" the logger for the remainder of the current async execution
  * and any further downstream calls sharing this context.
  */
 export const updateLoggerContext = (newLogger: Logger): void => {
-    const store = asyncLocalStorage.getStore();
-    if (store) {
-        store.logger = newLogger;
-    } else {
+    if (!tryUpdateLoggerContext(newLogger)) {
         // If we are not in a context, we can't update it.
         // We could throw, or warn. For now, let's warn.
         console.warn(
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { getCorrelationId } from './context';
+import { CORRELATION_ID_KEY, REQUEST_ID_KEY, TRACEPARENT_KEY } from './constants';
+
+// W3C trace context: version-traceId-parentId-flags
+const TRACEPARENT_PATTERN = /^[0-9a-f]{2}-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}$/i;
+
+/**
+ * Finds a header/attribute value by name, ignoring case.
+ * Values are unwrapped from the SQS ({ stringValue }) and SNS ({ Value }) attribute shapes.
+ */
+const findValue = (source: any, name: string): string | undefined => {
+    if (!source || typeof source !== 'object') return undefined;
+
+    const key = Object.keys(source).find((k) => k.toLowerCase() === name);
+    if (!key) return undefined;
+
+    const value = source[key];
+    const unwrapped =
+        value && typeof value === 'object' ? (value.stringValue ?? value.Value) : value;
+    return typeof unwrapped === 'string' && unwrapped.length > 0 ? unwrapped : undefined;
+};
+
+const fromCarrier = (carrier: any): string | undefined => {
+    const correlationId =
+        findValue(carrier, CORRELATION_ID_KEY) || findValue(carrier, REQUEST_ID_KEY);
+    if (correlationId) return correlationId;
+
+    const traceparent = findValue(carrier, TRACEPARENT_KEY);
+    return traceparent ? TRACEPARENT_PATTERN.exec(traceparent)?.[1] : undefined;
+};
+
+/**
+ * Reads an incoming correlation ID from an event or record:
+ * API Gateway headers, SQS record messageAttributes or SNS record MessageAttributes.
+ * Checks 'x-correlation-id', then 'x-request-id', then the trace ID from 'traceparent'.
+ */
+export const extractCorrelationId = (event: any): string | undefined => {
+    if (!event || typeof event !== 'object') return undefined;
+
+    // API Gateway (v1 and v2)
+    if (event.headers) {
+        const fromHeaders = fromCarrier(event.headers);
+        if (fromHeaders) return fromHeaders;
+    }
+
+    // SQS / SNS record (or a batch of them: the first record carrying an ID wins)
+    const records = Array.isArray(event.Records) ? event.Records : [event];
+    for (const record of records) {
+        const found =
+            fromCarrier(record?.messageAttributes) || fromCarrier(record?.Sns?.MessageAttributes);
+        if (found) return found;
+    }
+
+    return undefined;
+};
+
+export const generateCorrelationId = (): string => {
+    return crypto.randomUUID();
+};
+
+/**
+ * Returns the incoming correlation ID, or a freshly generated one if the event carries none.
+ */
+export const resolveCorrelationId = (event: any): string => {
+    return extractCorrelationId(event) || generateCorrelationId();
+};
+
+/**
+ * Headers to attach to outgoing HTTP calls so the downstream service continues the chain.
+ * Returns an empty object outside of a logger context.
+ */
+export const getCorrelationHeaders = (): Record<string, string> => {
+    const correlationId = getCorrelationId();
+    return correlationId ? { [CORRELATION_ID_KEY]: correlationId } : {};
+};
+
+/**
+ * Message attributes to attach to outgoing SQS SendMessage / SNS Publish calls (AWS SDK shape).
+ * Returns an empty object outside of a logger context.
+ */
+export const getCorrelationMessageAttributes = (): Record<
+    string,
+    { DataType: 'String'; StringValue: string }
+> => {
+    const correlationId = getCorrelationId();
+    return correlationId
+        ? { [CORRELATION_ID_KEY]: { DataType: 'String', StringValue: correlationId } }
+        : {};
+};
@@ -0,0 +1,186 @@
+/**
+ * Turns anything that can be thrown into a stable, JSON-friendly shape:
+ * { kind, name, message, code, stack, aws, cause, errors, ...custom props }.
+ * The 'kind' and 'code' fields are meant for metric filters and alarms.
+ */
+
+export type SerializedErrorKind = 'error' | 'aggregate' | 'aws-service' | 'non-error' | 'truncated';
+
+export interface SerializedError {
+    kind: SerializedErrorKind;
+    name: string;
+    message: string;
+    /**
+     * Error code: 'code' property (e.g. ECONNRESET) or the AWS SDK exception name
+     */
+    code?: string;
+    stack?: string;
+    /**
+     * AWS SDK v3 service exception metadata
+     */
+    aws?: {
+        fault?: string;
+        httpStatusCode?: number;
+        requestId?: string;
+        extendedRequestId?: string;
+        cfId?: string;
+        attempts?: number;
+        totalRetryDelay?: number;
+    };
+    cause?: SerializedError;
+    errors?: SerializedError[];
+    /**
+     * Original value when a primitive was thrown
+     */
+    value?: string | number | boolean | bigint | symbol | null;
+    [key: string]: any;
+}
+
+export interface SerializeErrorOptions {
+    /**
+     * Maximum depth of nested 'cause' / 'errors' to follow (default: 5)
+     */
+    maxDepth?: number;
+    /**
+     * Keep at most this many stack frames (default: all)
+     */
+    maxStackFrames?: number;
+    /**
+     * Include the stack trace (default: true)
+     */
+    includeStack?: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 5;
+
+// Properties lifted into dedicated fields (or dropped) instead of being copied verbatim
+const RESERVED_PROPS = new Set([
+    'name',
+    'message',
+    'stack',
+    'code',
+    'cause',
+    'errors',
+    '$metadata',
+    '$fault',
+    '$response',
+    '$retryable',
+    '$service',
+]);
+
+const trimStack = (stack: string | undefined, maxFrames?: number): string | undefined => {
+    if (stack === undefined || maxFrames === undefined) return stack;
+
+    const lines = stack.split('\n');
+    const firstFrame = lines.findIndex((line) => line.trimStart().startsWith('at '));
+    if (firstFrame === -1) return stack;
+
+    const frames = lines.slice(firstFrame);
+    if (frames.length <= maxFrames) return stack;
+
+    return [
+        ...lines.slice(0, firstFrame),
+        ...frames.slice(0, maxFrames),
+        `    ... ${frames.length - maxFrames} more frames`,
+    ].join('\n');
+};
+
+const isAwsServiceException = (error: any): boolean => {
+    return (
+        (error.$metadata !== null && typeof error.$metadata === 'object') ||
+        typeof error.$fault === 'string'
+    );
+};
+
+const serialize = (
+    error: unknown,
+    options: SerializeErrorOptions,
+    depth: number,
+    seen: Set<any>,
+): SerializedError => {
+    if (error === null || (typeof error !== 'object' && typeof error !== 'function')) {
+        return {
+            kind: 'non-error',
+            name: 'NonError',
+            message: String(error),
+            value: error as SerializedError['value'],
+        };
+    }
+
+    if (seen.has(error)) {
+        return { kind: 'truncated', name: 'Circular', message: '[Circular]' };
+    }
+    if (depth > (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+        return { kind: 'truncated', name: 'MaxDepth', message: '[Max depth reached]' };
+    }
+    seen.add(error);
+
+    const source = error as Record<string, any>;
+    const isError = error instanceof Error;
+    const isAws = isAwsServiceException(source);
+
+    let kind: SerializedErrorKind = 'non-error';
+    if (isAws) kind = 'aws-service';
+    else if (typeof AggregateError !== 'undefined' && error instanceof AggregateError) {
+        kind = 'aggregate';
+    } else if (isError) kind = 'error';
+
+    const serialized: SerializedError = {
+        kind,
+        name: typeof source.name === 'string' ? source.name : isError ? 'Error' : 'NonError',
+        message: typeof source.message === 'string' ? source.message : '',
+    };
+
+    // Custom props first, so the standard fields below always win
+    for (const [key, value] of Object.entries(source)) {
+        if (!RESERVED_PROPS.has(key)) serialized[key] = value;
+    }
+    serialized.kind = kind;
+
+    if (source.code !== undefined) {
+        serialized.code = String(source.code);
+    } else if (isAws) {
+        // SDK v3 exceptions carry the service error code as their name
+        serialized.code = serialized.name;
+    }
+
+    if (isAws) {
+        const metadata = source.$metadata || {};
+        serialized.aws = {
+            fault: source.$fault,
+            httpStatusCode: metadata.httpStatusCode,
+            requestId: metadata.requestId,
+            extendedRequestId: metadata.extendedRequestId,
+            cfId: metadata.cfId,
+            attempts: metadata.attempts,
+            totalRetryDelay: metadata.totalRetryDelay,
+        };
+    }
+
+    if (options.includeStack !== false && typeof source.stack === 'string') {
+        serialized.stack = trimStack(source.stack, options.maxStackFrames);
+    }
+
+    if (source.cause !== undefined) {
+        serialized.cause = serialize(source.cause, options, depth + 1, seen);
+    }
+
+    if (Array.isArray(source.errors)) {
+        serialized.errors = source.errors.map((inner: unknown) =>
+            serialize(inner, options, depth + 1, seen),
+        );
+    }
+
+    return serialized;
+};
+
+/**
+ * Serializes any thrown value (Error, AggregateError, AWS SDK v3 exception, object, primitive)
+ * with cycle protection and a depth limit on cause chains.
+ */
+export const serializeError = (
+    error: unknown,
+    options: SerializeErrorOptions = {},
+): SerializedError => {
+    return serialize(error, options, 0, new Set());
+};
@@ -0,0 +1,176 @@
+/**
+ * Detects the Lambda trigger type from the shape of the incoming event and extracts
+ * the fields worth binding to the request logger (method, path, message IDs, ARNs...).
+ *
+ * We intentionally avoid @types/aws-lambda here and inspect the raw event shape instead.
+ */
+export interface EventExtractor {
+    /**
+     * Identifier of the event source, bound to the logger as 'eventType'
+     */
+    name: string;
+    /**
+     * Returns true if the event looks like it came from this source
+     */
+    matches(event: any): boolean;
+    /**
+     * Extracts the log context from a matching event
+     */
+    extract(event: any): Record<string, any>;
+}
+
+const firstRecord = (event: any): any => {
+    return Array.isArray(event?.Records) && event.Records.length > 0 ? event.Records[0] : undefined;
+};
+
+const isRecordSource = (event: any, source: string): boolean => {
+    const record = firstRecord(event);
+    return !!record && (record.eventSource === source || record.EventSource === source);
+};
+
+// Batch fields are bound to every line of the invocation: a 10,000-record batch must not
+// put 10,000 IDs on each of them. Per-record IDs come from withBatchLogger.
+const MAX_BOUND_VALUES = 5;
+
+const unique = (values: any[]): any[] => {
+    return Array.from(new Set(values.filter((v) => v !== undefined))).slice(0, MAX_BOUND_VALUES);
+};
+
+/**
+ * Value of the first few records only (see MAX_BOUND_VALUES)
+ */
+const firstValues = (records: any[], pick: (record: any) => any): any[] => {
+    return records
+        .slice(0, MAX_BOUND_VALUES)
+        .map(pick)
+        .filter((v) => v !== undefined);
+};
+
+export const apiGatewayV2Extractor: EventExtractor = {
+    name: 'apiGatewayV2',
+    matches: (event) => event?.version === '2.0' && !!event?.requestContext?.http,
+    extract: (event) => ({
+        method: event.requestContext.http.method,
+        path: event.requestContext.http.path ?? event.rawPath,
+        routeKey: event.routeKey ?? event.requestContext.routeKey,
+        sourceIp: event.requestContext.http.sourceIp,
+        apiRequestId: event.requestContext.requestId,
+    }),
+};
+
+export const apiGatewayV1Extractor: EventExtractor = {
+    name: 'apiGatewayV1',
+    matches: (event) => typeof event?.httpMethod === 'string' && !!event?.requestContext,
+    extract: (event) => ({
+        method: event.httpMethod,
+        path: event.path,
+        routeKey: event.resource,
+        sourceIp: event.requestContext.identity?.sourceIp,
+        apiRequestId: event.requestContext.requestId,
+    }),
+};
+
+export const sqsExtractor: EventExtractor = {
+    name: 'sqs',
+    matches: (event) => isRecordSource(event, 'aws:sqs'),
+    extract: (event) => ({
+        messageIds: firstValues(event.Records, (r) => r.messageId),
+        queueArns: unique(event.Records.map((r: any) => r.eventSourceARN)),
+        recordCount: event.Records.length,
+    }),
+};
+
+export const snsExtractor: EventExtractor = {
+    name: 'sns',
+    matches: (event) => isRecordSource(event, 'aws:sns'),
+    extract: (event) => ({
+        messageIds: firstValues(event.Records, (r) => r.Sns?.MessageId),
+        topicArns: unique(event.Records.map((r: any) => r.Sns?.TopicArn)),
+        recordCount: event.Records.length,
+    }),
+};
+
+export const eventBridgeExtractor: EventExtractor = {
+    name: 'eventBridge',
+    matches: (event) =>
+        typeof event?.['detail-type'] === 'string' && typeof event?.source === 'string',
+    extract: (event) => ({
+        detailType: event['detail-type'],
+        source: event.source,
+        eventId: event.id,
+    }),
+};
+
+export const s3Extractor: EventExtractor = {
+    name: 's3',
+    matches: (event) => isRecordSource(event, 'aws:s3'),
+    extract: (event) => ({
+        buckets: unique(event.Records.map((r: any) => r.s3?.bucket?.name)),
+        keys: firstValues(event.Records, (r) => r.s3?.object?.key),
+        eventNames: unique(event.Records.map((r: any) => r.eventName)),
+        recordCount: event.Records.length,
+    }),
+};
+
+export const dynamoDbStreamExtractor: EventExtractor = {
+    name: 'dynamodb',
+    matches: (event) => isRecordSource(event, 'aws:dynamodb'),
+    extract: (event) => ({
+        eventNames: unique(event.Records.map((r: any) => r.eventName)),
+        streamArns: unique(event.Records.map((r: any) => r.eventSourceARN)),
+        recordCount: event.Records.length,
+    }),
+};
+
+export const BUILT_IN_EVENT_EXTRACTORS: EventExtractor[] = [
+    apiGatewayV2Extractor,
+    apiGatewayV1Extractor,
+    sqsExtractor,
+    snsExtractor,
+    eventBridgeExtractor,
+    s3Extractor,
+    dynamoDbStreamExtractor,
+];
+
+// Custom extractors registered globally. They are checked before the built-in ones.
+const customExtractors: EventExtractor[] = [];
+
+/**
+ * Registers a custom extractor for all wrapped handlers.
+ * Extractors registered later take precedence over earlier ones and over the built-ins.
+ */
+export const registerEventExtractor = (extractor: EventExtractor): void => {
+    customExtractors.unshift(extractor);
+};
+
+/**
+ * Detects the event source and returns the context to bind to the logger.
+ * Returns an empty object if no extractor matches or the matching extractor fails.
+ *
+ * @param event The raw Lambda event
+ * @param extractors Extra extractors to check before the registered and built-in ones
+ */
+export const extractEventContext = (
+    event: any,
+    extractors: EventExtractor[] = [],
+): Record<string, any> => {
+    if (event === null || typeof event !== 'object') {
+        return {};
+    }
+
+    for (const extractor of [...extractors, ...customExtractors, ...BUILT_IN_EVENT_EXTRACTORS]) {
+        try {
+            if (!extractor.matches(event)) continue;
+
+            const extracted: Record<string, any> = { eventType: extractor.name };
+            for (const [key, value] of Object.entries(extractor.extract(event))) {
+                if (value !== undefined) extracted[key] = value;
+            }
+            return extracted;
+        } catch {
+            // A malformed event should never break the handler; try the next extractor
+        }
+    }
+
+    return {};
+};
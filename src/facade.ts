@@ -0,0 +1,42 @@
+import { CreateLoggerOptions, createLogger } from './logger';
+import { getLogger } from './context';
+import { Logger } from './types';
+
+let defaultLoggerOptions: CreateLoggerOptions = {};
+let defaultLogger: Logger | undefined;
+
+/**
+ * Sets the options of the logger used by 'log' outside of a logger context.
+ * The logger is (re)created on its next use.
+ */
+export const configureDefaultLogger = (options: CreateLoggerOptions = {}): void => {
+    defaultLoggerOptions = options;
+    defaultLogger = undefined;
+};
+
+/**
+ * Returns the fallback logger, creating it on first use.
+ */
+export const getDefaultLogger = (): Logger => {
+    if (!defaultLogger) defaultLogger = createLogger(defaultLoggerOptions);
+    return defaultLogger;
+};
+
+const currentLogger = (): Logger => getLogger() ?? getDefaultLogger();
+
+/**
+ * Logger facade for library and deep service code: every call goes to the current context
+ * logger, or to the default logger (see configureDefaultLogger) outside of a context.
+ * Never undefined, so it is safe in unit tests, scripts and Lambda handlers alike.
+ */
+export const log: Logger = {
+    debug: (message, context) => currentLogger().debug(message, context),
+    info: (message, context) => currentLogger().info(message, context),
+    warn: (message, context) => currentLogger().warn(message, context),
+    error: (message, error, context) => currentLogger().error(message, error, context),
+    child: (context) => currentLogger().child(context),
+    setLevel: (level) => currentLogger().setLevel(level),
+    isLevelEnabled: (level) => currentLogger().isLevelEnabled(level),
+    startTimer: () => currentLogger().startTimer(),
+    withSpan: (name, fn) => currentLogger().withSpan(name, fn),
+};
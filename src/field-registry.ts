@@ -0,0 +1,68 @@
+/**
+ * Keys with a fixed meaning in every record. 'level', 'message' and 'timestamp' are written
+ * by the formatting pipeline; 'requestId' is bound by withLogger / the HTTP middleware.
+ */
+export const RESERVED_LOG_KEYS = ['level', 'message', 'timestamp', 'requestId'];
+
+// Written on every record, so user context can never set them
+const PIPELINE_KEYS = new Set(['level', 'message', 'timestamp']);
+
+export type ReservedKeyAction = 'warn' | 'drop';
+
+export interface FieldRegistryOptions {
+    /**
+     * Keys to protect in addition to RESERVED_LOG_KEYS, e.g. ['service', 'tenantId'].
+     * They (like 'requestId') are protected once bound on the logger.
+     */
+    reservedKeys?: string[];
+    /**
+     * 'warn' keeps the value and warns once per key; 'drop' removes it (default: 'warn')
+     */
+    onConflict?: ReservedKeyAction;
+}
+
+export interface FieldRegistry {
+    /**
+     * Returns the call-site context to log, without the reserved keys it may not overwrite
+     * ('drop').
+     *
+     * @param boundKeys Keys already bound on the logger (default context and child bindings)
+     */
+    check(context: Record<string, any>, boundKeys: ReadonlySet<string>): Record<string, any>;
+}
+
+/**
+ * Runtime guard against call-site context overwriting reserved keys.
+ * A key is taken when the pipeline writes it or when it is already bound on the logger.
+ * child() bindings are not checked: that is how withLogger, withBatchLogger and the HTTP
+ * middleware bind 'requestId' in the first place.
+ */
+export const createFieldRegistry = (options: FieldRegistryOptions = {}): FieldRegistry => {
+    const reserved = new Set([...RESERVED_LOG_KEYS, ...(options.reservedKeys || [])]);
+    const warned = new Set<string>();
+
+    const isTaken = (key: string, boundKeys: ReadonlySet<string>): boolean => {
+        return PIPELINE_KEYS.has(key) || boundKeys.has(key);
+    };
+
+    return {
+        check: (context, boundKeys) => {
+            let checked = context;
+            for (const key of Object.keys(context)) {
+                if (!reserved.has(key) || !isTaken(key, boundKeys)) continue;
+
+                if (options.onConflict === 'drop') {
+                    // Copy so the caller's context object is not mutated
+                    if (checked === context) checked = { ...context };
+                    delete checked[key];
+                } else if (!warned.has(key)) {
+                    warned.add(key);
+                    console.warn(
+                        `AntigravityLogger: context key '${key}' is reserved and overwrites the value set by the logger.`,
+                    );
+                }
+            }
+            return checked;
+        },
+    };
+};
@@ -0,0 +1,118 @@
+import util from 'util';
+import winston from 'winston';
+import { isLambdaJsonLogFormat } from './advanced-logging';
+
+export type LogFormat = 'json' | 'pretty' | 'logfmt';
+
+const LOG_FORMATS: LogFormat[] = ['json', 'pretty', 'logfmt'];
+
+// Winston stores the level and the rendered line under these symbols
+const LEVEL = Symbol.for('level');
+const MESSAGE = Symbol.for('message');
+
+const colorizer = winston.format.colorize();
+
+/**
+ * True when running inside the Lambda runtime (including sam local emulation).
+ */
+export const isLambdaEnvironment = (): boolean => {
+    return !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+};
+
+/**
+ * Resolves the output format when none is configured:
+ * 'json' when AWS_LAMBDA_LOG_FORMAT=JSON, process.env.LOG_FORMAT if valid,
+ * 'json' inside Lambda, 'pretty' on a TTY, 'json' otherwise.
+ */
+export const resolveLogFormat = (format?: LogFormat): LogFormat => {
+    if (format) return format;
+    if (isLambdaJsonLogFormat()) return 'json';
+
+    const fromEnv = process.env.LOG_FORMAT?.toLowerCase() as LogFormat | undefined;
+    if (fromEnv && LOG_FORMATS.includes(fromEnv)) return fromEnv;
+
+    if (isLambdaEnvironment()) return 'json';
+    return process.stdout.isTTY ? 'pretty' : 'json';
+};
+
+const splitInfo = (info: winston.Logform.TransformableInfo) => {
+    const { level, message, timestamp, ...rest } = info;
+    return { level, message, timestamp, context: rest };
+};
+
+/**
+ * Human-readable output for local runs: colorized level, then the context on indented lines.
+ */
+const prettyFormat = winston.format.printf((info) => {
+    const { level, message, timestamp, context } = splitInfo(info);
+    const levelName = String(info[LEVEL] ?? level);
+    const header = `${timestamp ?? ''} ${colorizer.colorize(levelName, levelName.toUpperCase().padEnd(5))} ${message}`;
+
+    const keys = Object.keys(context);
+    if (keys.length === 0) return header;
+
+    const body = keys
+        .map((key) => {
+            const value = util.inspect(context[key], { colors: true, depth: 6, breakLength: 100 });
+            return `    ${key}: ${value.replace(/\n/g, '\n    ')}`;
+        })
+        .join('\n');
+    return `${header}\n${body}`;
+});
+
+const formatLogfmtValue = (value: any): string => {
+    const str = typeof value === 'string' ? value : (JSON.stringify(value) ?? String(value));
+    return /[\s="\\]/.test(str) || str === '' ? JSON.stringify(str) : str;
+};
+
+const flattenForLogfmt = (
+    value: Record<string, any>,
+    prefix = '',
+    pairs: string[] = [],
+    seen = new Set<any>(),
+): string[] => {
+    seen.add(value);
+    for (const [key, nested] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (
+            nested !== null &&
+            typeof nested === 'object' &&
+            !Array.isArray(nested) &&
+            !seen.has(nested)
+        ) {
+            flattenForLogfmt(nested, path, pairs, seen);
+        } else if (nested !== undefined) {
+            pairs.push(`${path}=${formatLogfmtValue(nested)}`);
+        }
+    }
+    return pairs;
+};
+
+/**
+ * logfmt output: 'timestamp=... level=info msg="..." key=value', nested keys joined with dots.
+ */
+const logfmtFormat = winston.format((info) => {
+    const { level, message, timestamp, context } = splitInfo(info);
+    const head = [
+        timestamp !== undefined ? `timestamp=${formatLogfmtValue(timestamp)}` : undefined,
+        `level=${level}`,
+        `msg=${formatLogfmtValue(message)}`,
+    ].filter((pair): pair is string => !!pair);
+    (info as any)[MESSAGE] = [...head, ...flattenForLogfmt(context)].join(' ');
+    return info;
+});
+
+/**
+ * Returns the final Winston format for a preset. It must run last, after redaction.
+ */
+export const createOutputFormat = (format: LogFormat): winston.Logform.Format => {
+    switch (format) {
+        case 'pretty':
+            return prettyFormat;
+        case 'logfmt':
+            return logfmtFormat();
+        case 'json':
+        default:
+            return winston.format.json();
+    }
+};
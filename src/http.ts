@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { CreateLoggerOptions, createLogger } from './logger';
+import { runWithLogger } from './context';
+import { Logger } from './types';
+import { resolveCorrelationId } from './correlation';
+import { RequestLogLevelOptions, resolveRequestLogLevel } from './log-level';
+import { REQUEST_ID_KEY } from './constants';
+
+export type HttpRequestHandler<
+    TRequest extends IncomingMessage = IncomingMessage,
+    TResponse extends ServerResponse = ServerResponse,
+> = (req: TRequest, res: TResponse) => void;
+
+/**
+ * Express-compatible middleware signature (also accepted by Connect and Restify).
+ */
+export type HttpMiddleware<
+    TRequest extends IncomingMessage = IncomingMessage,
+    TResponse extends ServerResponse = ServerResponse,
+> = (req: TRequest, res: TResponse, next: (error?: any) => void) => void;
+
+export interface HttpLoggerOptions extends CreateLoggerOptions, RequestLogLevelOptions {
+    /**
+     * Header the request ID is read from and written back to (default: 'x-request-id')
+     */
+    requestIdHeader?: string;
+    /**
+     * Log one access line per request when the response finishes (default: true)
+     */
+    accessLog?: boolean;
+}
+
+const getHeader = (req: IncomingMessage, name: string): string | undefined => {
+    const value = req.headers[name.toLowerCase()];
+    const first = Array.isArray(value) ? value[0] : value;
+    return first ? first : undefined;
+};
+
+/**
+ * Path without the query string, which often carries tokens and other sensitive values.
+ * Express rewrites req.url inside routers; 'originalUrl' keeps the full path.
+ */
+const getRequestPath = (req: IncomingMessage): string => {
+    const url = (req as any).originalUrl ?? req.url ?? '';
+    const queryStart = url.indexOf('?');
+    return queryStart === -1 ? url : url.slice(0, queryStart);
+};
+
+/**
+ * Runs next() inside a logger context for a single HTTP request:
+ * reads (or generates) the request ID, echoes it in the response header and writes the
+ * access line once the response is sent.
+ */
+const runHttpRequest = (
+    rootLogger: Logger,
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: HttpLoggerOptions,
+    next: () => void,
+): void => {
+    const startedAt = Date.now();
+    const requestIdHeader = options.requestIdHeader || REQUEST_ID_KEY;
+    const requestId = getHeader(req, requestIdHeader) || crypto.randomUUID();
+    const event = { headers: req.headers };
+    const correlationId = resolveCorrelationId(event);
+    const level = resolveRequestLogLevel(event, options);
+
+    const scopedLogger = rootLogger.child({ requestId, correlationId });
+    if (!res.headersSent) res.setHeader(requestIdHeader, requestId);
+
+    if (options.accessLog !== false) {
+        let logged = false;
+        const logAccess = (aborted: boolean) => {
+            if (logged) return;
+            logged = true;
+
+            const accessLine: Record<string, any> = {
+                method: req.method,
+                path: getRequestPath(req),
+                statusCode: res.statusCode,
+                durationMs: Date.now() - startedAt,
+            };
+            if (aborted) accessLine.aborted = true;
+
+            if (aborted || res.statusCode >= 500) {
+                scopedLogger.warn('HTTP Request', accessLine);
+            } else {
+                scopedLogger.info('HTTP Request', accessLine);
+            }
+        };
+        // 'close' without 'finish' means the client went away before the response was sent
+        res.once('finish', () => logAccess(false));
+        res.once('close', () => logAccess(!res.writableFinished));
+    }
+
+    runWithLogger(scopedLogger, next, { requestId, correlationId, level });
+};
+
+/**
+ * Express-compatible middleware ((req, res, next)) that does for HTTP servers what withLogger
+ * does for Lambda handlers: everything after it runs in a logger context bound to the
+ * request ID and correlation ID. Register it first so the whole chain is covered.
+ *
+ * @param options Logger options (level, redaction, etc.)
+ */
+export const createHttpLogger = <
+    TRequest extends IncomingMessage = IncomingMessage,
+    TResponse extends ServerResponse = ServerResponse,
+>(
+    options: HttpLoggerOptions = {},
+): HttpMiddleware<TRequest, TResponse> => {
+    let rootLogger: Logger | undefined;
+
+    return (req, res, next) => {
+        rootLogger = rootLogger ?? createLogger(options);
+        runHttpRequest(rootLogger, req, res, options, () => next());
+    };
+};
+
+/**
+ * Wraps a plain Node 'http' request listener, e.g. http.createServer(withHttpLogger(handler)).
+ *
+ * @param handler The original request listener
+ * @param options Logger options (level, redaction, etc.)
+ */
+export const withHttpLogger = <
+    TRequest extends IncomingMessage = IncomingMessage,
+    TResponse extends ServerResponse = ServerResponse,
+>(
+    handler: HttpRequestHandler<TRequest, TResponse>,
+    options: HttpLoggerOptions = {},
+): HttpRequestHandler<TRequest, TResponse> => {
+    const middleware = createHttpLogger<TRequest, TResponse>(options);
+    return (req, res) => middleware(req, res, () => handler(req, res));
+};
@@ -1,6 +1,26 @@
 export * from './types';
 export * from './redactor';
+export * from './redaction-paths';
 export * from './context';
 export * from './logger';
+export * from './facade';
+export * from './error-serializer';
+export * from './formats';
+export * from './advanced-logging';
+export * from './log-level';
+export * from './sampling';
+export * from './log-buffer';
+export * from './timing';
+export * from './tracing';
+export * from './truncation';
+export * from './field-registry';
+export * from './audit';
+export * from './transports';
+export * from './metrics';
 export * from './wrapper';
+export * from './batch';
+export * from './http';
+export * from './invocation';
+export * from './event-sources';
+export * from './correlation';
 export * from './constants';
@@ -0,0 +1,121 @@
+import { Logger } from './types';
+
+export type InvocationOutcome = 'success' | 'error' | 'timeout';
+
+export interface InvocationMonitorOptions {
+    /**
+     * Warn this many milliseconds before the Lambda timeout. Set to false to disable.
+     * Default: 1000
+     */
+    timeoutWarningMs?: number | false;
+    /**
+     * Write a single summary line when the invocation ends (or is about to time out).
+     * Default: true
+     */
+    invocationSummary?: boolean;
+}
+
+export interface InvocationMonitor {
+    /**
+     * Stops the timers and writes the summary line, unless it was already written.
+     */
+    finish(outcome: InvocationOutcome, result?: any): void;
+}
+
+const DEFAULT_TIMEOUT_WARNING_MS = 1000;
+
+// The timeout summary must be written before the runtime freezes the process
+const TIMEOUT_SUMMARY_MARGIN_MS = 50;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Returns the status code when the handler result looks like an API Gateway / ALB response.
+ */
+const getResponseStatusCode = (result: any): number | undefined => {
+    return result && typeof result === 'object' && typeof result.statusCode === 'number'
+        ? result.statusCode
+        : undefined;
+};
+
+const unrefTimer = (timer: NodeJS.Timeout): NodeJS.Timeout => {
+    // Timers must never keep a process alive (local runs, tests)
+    timer.unref?.();
+    return timer;
+};
+
+/**
+ * Watches a single invocation: warns ahead of the timeout and writes the final summary line
+ * with duration, cold start, outcome, memory and response status code.
+ *
+ * @param onTimeout Called right before the timeout summary, e.g. to flush buffered output
+ */
+export const startInvocationMonitor = (
+    logger: Logger,
+    context: any,
+    coldStart: boolean,
+    options: InvocationMonitorOptions = {},
+    onTimeout?: () => void,
+): InvocationMonitor => {
+    const startedAt = Date.now();
+    const timers: NodeJS.Timeout[] = [];
+    let finished = false;
+
+    const finish = (outcome: InvocationOutcome, result?: any): void => {
+        if (finished) return;
+        finished = true;
+        timers.forEach((timer) => clearTimeout(timer));
+
+        if (options.invocationSummary === false) return;
+
+        const summary: Record<string, any> = {
+            outcome,
+            durationMs: Date.now() - startedAt,
+            coldStart,
+            memoryUsedMb: Math.round(process.memoryUsage().rss / BYTES_PER_MB),
+        };
+        if (context?.memoryLimitInMB !== undefined) {
+            summary.memoryLimitMb = Number(context.memoryLimitInMB);
+        }
+        const statusCode = getResponseStatusCode(result);
+        if (statusCode !== undefined) summary.statusCode = statusCode;
+
+        if (outcome === 'success') {
+            logger.info('Lambda Invocation Summary', summary);
+        } else {
+            logger.warn('Lambda Invocation Summary', summary);
+        }
+    };
+
+    if (typeof context?.getRemainingTimeInMillis === 'function') {
+        const remainingMs = context.getRemainingTimeInMillis();
+        const warningMs = options.timeoutWarningMs ?? DEFAULT_TIMEOUT_WARNING_MS;
+
+        if (warningMs !== false && remainingMs > warningMs) {
+            timers.push(
+                unrefTimer(
+                    setTimeout(() => {
+                        logger.warn('Lambda invocation about to time out', {
+                            remainingTimeMs: context.getRemainingTimeInMillis(),
+                            elapsedMs: Date.now() - startedAt,
+                        });
+                    }, remainingMs - warningMs),
+                ),
+            );
+        }
+
+        timers.push(
+            unrefTimer(
+                setTimeout(
+                    () => {
+                        onTimeout?.();
+                        finish('timeout');
+                    },
+                    Math.max(remainingMs - TIMEOUT_SUMMARY_MARGIN_MS, 0),
+                ),
+            ),
+        );
+    }
+
+    return { finish };
+};
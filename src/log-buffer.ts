@@ -0,0 +1,107 @@
+export interface LogBufferOptions {
+    /**
+     * Maximum number of buffered records; the oldest are dropped first (default: 100)
+     */
+    maxSize?: number;
+    /**
+     * Flush the buffer when logger.error() is called (default: true)
+     */
+    flushOnError?: boolean;
+}
+
+export interface LogBuffer {
+    /**
+     * Adds a deferred write. It runs through the full pipeline (redaction included) on flush.
+     */
+    push(write: () => void): void;
+    /**
+     * Writes the buffered records in order and empties the buffer.
+     * Returns the number of records written.
+     */
+    flush(): number;
+    /**
+     * Drops the buffered records without writing them.
+     */
+    clear(): void;
+    readonly size: number;
+    readonly dropped: number;
+}
+
+const DEFAULT_MAX_SIZE = 100;
+
+// Copies plain objects and arrays; anything else (functions, class instances) is kept as is
+const copyValue = (value: any, copies: Map<any, any>): any => {
+    if (value === null || typeof value !== 'object') return value;
+    if (copies.has(value)) return copies.get(value);
+
+    const isArray = Array.isArray(value);
+    const prototype = Object.getPrototypeOf(value);
+    if (!isArray && prototype !== Object.prototype && prototype !== null) return value;
+
+    const copy: any = isArray ? [] : {};
+    copies.set(value, copy);
+    for (const [key, nested] of Object.entries(value)) {
+        copy[key] = copyValue(nested, copies);
+    }
+    return copy;
+};
+
+/**
+ * Deep copy of a buffered record's context, so later mutations by the handler do not change
+ * what is written at flush. Falls back to copying plain objects and arrays when the context
+ * holds values structuredClone rejects (functions, symbols...).
+ */
+export const snapshotContext = (context: Record<string, any>): Record<string, any> => {
+    try {
+        return structuredClone(context);
+    } catch {
+        return copyValue(context, new Map());
+    }
+};
+
+/**
+ * Per-invocation ring buffer for records below the configured level (debug).
+ * Nothing is formatted or redacted until flush, so a successful invocation costs only the push.
+ */
+export const createLogBuffer = (
+    options: LogBufferOptions = {},
+    onDropped?: (count: number) => void,
+): LogBuffer => {
+    const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+    let writes: (() => void)[] = [];
+    let dropped = 0;
+
+    return {
+        push: (write: () => void): void => {
+            writes.push(write);
+            if (writes.length > maxSize) {
+                writes.shift();
+                dropped += 1;
+            }
+        },
+
+        flush: (): number => {
+            const pending = writes;
+            const droppedCount = dropped;
+            writes = [];
+            dropped = 0;
+
+            if (droppedCount > 0) onDropped?.(droppedCount);
+            pending.forEach((write) => write());
+            return pending.length;
+        },
+
+        clear: (): void => {
+            writes = [];
+            dropped = 0;
+        },
+
+        get size() {
+            return writes.length;
+        },
+
+        get dropped() {
+            return dropped;
+        },
+    };
+};
@@ -0,0 +1,65 @@
+import winston from 'winston';
+import { DEBUG_HEADER_KEY } from './constants';
+
+// Lower number = more severe (npm levels: error 0 ... debug 5, silly 6)
+const LOG_LEVELS: Record<string, number> = winston.config.npm.levels;
+
+export const isValidLogLevel = (level: string): boolean => {
+    return Object.prototype.hasOwnProperty.call(LOG_LEVELS, level);
+};
+
+export const assertValidLogLevel = (level: string): void => {
+    if (!isValidLogLevel(level)) {
+        throw new Error(
+            `Unknown log level '${level}'. Expected one of: ${Object.keys(LOG_LEVELS).join(', ')}`,
+        );
+    }
+};
+
+/**
+ * True if a record at 'level' passes a logger configured with 'threshold'.
+ */
+export const isLevelAllowed = (level: string, threshold: string): boolean => {
+    return LOG_LEVELS[level] <= LOG_LEVELS[threshold];
+};
+
+export interface RequestLogLevelOptions {
+    /**
+     * Honor the 'x-debug' header and 'debug: true' event flag (default: true).
+     * Both come from the caller, so disable this for endpoints open to untrusted clients.
+     */
+    debugTriggers?: boolean;
+    /**
+     * Fraction of invocations (0 to 1) that log at debug level regardless of the configured level
+     */
+    debugSampleRate?: number;
+}
+
+const isTruthyFlag = (value: any): boolean => {
+    return value === true || value === 'true' || value === '1';
+};
+
+/**
+ * Decides whether a single request should log at debug level:
+ * an 'x-debug' header, a 'debug: true' event flag (unless debugTriggers is false),
+ * or a sampling hit.
+ * Returns 'debug' when it should, undefined to keep the configured level.
+ */
+export const resolveRequestLogLevel = (
+    event: any,
+    options: RequestLogLevelOptions = {},
+): string | undefined => {
+    if (options.debugTriggers !== false && event && typeof event === 'object') {
+        if (isTruthyFlag(event.debug)) return 'debug';
+
+        const headers = event.headers && typeof event.headers === 'object' ? event.headers : {};
+        const headerKey = Object.keys(headers).find((k) => k.toLowerCase() === DEBUG_HEADER_KEY);
+        if (headerKey && isTruthyFlag(headers[headerKey])) return 'debug';
+    }
+
+    if (options.debugSampleRate && Math.random() < options.debugSampleRate) {
+        return 'debug';
+    }
+
+    return undefined;
+};
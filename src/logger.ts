@@ -1,7 +1,22 @@
 import winston from 'winston';
 import { Logger } from './types';
 import { DEFAULT_LOG_LEVEL } from './constants';
+import { getContextLogLevel, getLogBuffer } from './context';
+import { assertValidLogLevel, isLevelAllowed, isValidLogLevel } from './log-level';
+import { LogBufferOptions, snapshotContext } from './log-buffer';
+import { runSpan, startTimer } from './timing';
+import { Sampler, SamplingConfig, createSampler } from './sampling';
+import { SerializeErrorOptions, serializeError } from './error-serializer';
 import { RedactionConfig, createRedactor } from './redactor';
+import { LogFormat, createOutputFormat, resolveLogFormat } from './formats';
+import { TracingOptions, traceContextFormat } from './tracing';
+import { SizeLimits, createMaxBytesFormat, sizeLimitFormat } from './truncation';
+import { FieldRegistry, FieldRegistryOptions, createFieldRegistry } from './field-registry';
+import {
+    getLambdaLogLevel,
+    isLambdaJsonLogFormat,
+    lambdaJsonFieldsFormat,
+} from './advanced-logging';
 
 export interface CreateLoggerOptions {
     /**
@@ -9,61 +24,209 @@ export interface CreateLoggerOptions {
      */
     defaultContext?: Record<string, any>;
     /**
-     * Log level (default: process.env.LOG_LEVEL || 'info')
+     * Log level (default: process.env.AWS_LAMBDA_LOG_LEVEL || process.env.LOG_LEVEL || 'info')
      */
     level?: string;
     /**
      * Configuration for data redaction
      */
     redaction?: RedactionConfig;
+    /**
+     * Output format preset (default: process.env.LOG_FORMAT, else 'json' inside Lambda,
+     * 'pretty' on a TTY and 'json' otherwise)
+     */
+    format?: LogFormat;
+    /**
+     * Winston transports to write to (default: a single Console transport)
+     */
+    transports?: winston.transport[];
+    /**
+     * Emit the field shape of Lambda's JSON log format: uppercase 'level' and a top-level
+     * 'requestId' (default: true when AWS_LAMBDA_LOG_FORMAT=JSON)
+     */
+    lambdaJsonFields?: boolean;
+    /**
+     * How errors passed to logger.error() are serialized (depth limit, stack trimming)
+     */
+    errorSerialization?: SerializeErrorOptions;
+    /**
+     * Per-level sampling (decided once per request) and per-message rate limiting
+     */
+    sampling?: SamplingConfig;
+    /**
+     * Buffer debug records below the level in the context's log buffer (see withLogger)
+     * and write them only if an error is logged. Redaction runs when they are flushed.
+     */
+    logBuffer?: LogBufferOptions;
+    /**
+     * Trace IDs added to every record: X-Ray (on by default) and, when the OpenTelemetry
+     * API is passed in, the active span's W3C trace and span IDs
+     */
+    tracing?: TracingOptions;
+    /**
+     * Limits on string length, array length, depth and total bytes per record, applied after
+     * redaction. Only 'maxBytes' (CloudWatch's 256 KB event limit) is on by default;
+     * set to false to disable all limits.
+     */
+    sizeLimits?: SizeLimits | false;
+    /**
+     * Warn about (or drop) user context that overwrites reserved keys such as 'level',
+     * 'message', 'timestamp' or a bound 'requestId' (default: no check)
+     */
+    fieldRegistry?: FieldRegistryOptions;
 }
 
-const formatContext = (context?: Record<string, any>): Record<string, any> => {
-    return context || {};
+const LEVEL = Symbol.for('level');
+
+// Level of a logger; children point to their parent's state until they call setLevel
+interface LevelState {
+    level?: string;
+    parent?: LevelState;
+}
+
+const resolveLevel = (state: LevelState): string => {
+    return state.level ?? (state.parent ? resolveLevel(state.parent) : DEFAULT_LOG_LEVEL);
 };
 
-const createLoggerWrapper = (winstonLogger: winston.Logger): Logger => {
-    return {
+// State shared by a root logger and all of its children
+interface LoggerShared {
+    errorSerialization: SerializeErrorOptions;
+    sampler?: Sampler;
+    logBuffer?: LogBufferOptions;
+    fieldRegistry?: FieldRegistry;
+}
+
+const NO_BOUND_KEYS: ReadonlySet<string> = new Set();
+
+const createLoggerWrapper = (
+    winstonLogger: winston.Logger,
+    levelState: LevelState,
+    shared: LoggerShared,
+    boundKeys: ReadonlySet<string>,
+): Logger => {
+    const formatContext = (context?: Record<string, any>): Record<string, any> => {
+        const formatted = context || {};
+        return shared.fieldRegistry ? shared.fieldRegistry.check(formatted, boundKeys) : formatted;
+    };
+
+    const isLevelEnabled = (level: string): boolean => {
+        return isLevelAllowed(level, getContextLogLevel() ?? resolveLevel(levelState));
+    };
+
+    const shouldWrite = (
+        level: string,
+        message: string,
+        context?: Record<string, any>,
+    ): boolean => {
+        // EMF documents carry metrics: dropping one would lose data points, not just noise.
+        // They are neither level-filtered nor sampled.
+        if (context && '_aws' in context) return true;
+        if (!isLevelEnabled(level)) return false;
+        if (!shared.sampler) return true;
+
+        // The summary is written by whichever call comes after the interval elapsed
+        const summary = shared.sampler.takeSummary();
+        if (summary) {
+            winstonLogger.warn('Log messages suppressed', summary);
+        }
+        return shared.sampler.shouldLog(level, message);
+    };
+
+    // Debug records below the level are kept for a possible error instead of being dropped
+    const bufferRecord = (level: string, message: string, context?: Record<string, any>) => {
+        const logBuffer = shared.logBuffer && getLogBuffer();
+        if (!logBuffer || isLevelEnabled(level)) return;
+
+        // Snapshot now: the handler may mutate the objects before the buffer is flushed.
+        // Redaction still runs at flush, in the format pipeline.
+        const meta = {
+            ...snapshotContext(formatContext(context)),
+            bufferedAt: new Date().toISOString(),
+        };
+        logBuffer.push(() => winstonLogger.log(level, message, meta));
+    };
+
+    const logger: Logger = {
         debug: (message: string, context?: Record<string, any>): void => {
+            if (!shouldWrite('debug', message, context)) {
+                bufferRecord('debug', message, context);
+                return;
+            }
             winstonLogger.debug(message, formatContext(context));
         },
 
         info: (message: string, context?: Record<string, any>): void => {
+            if (!shouldWrite('info', message, context)) return;
             winstonLogger.info(message, formatContext(context));
         },
 
         warn: (message: string, context?: Record<string, any>): void => {
+            if (!shouldWrite('warn', message, context)) return;
             winstonLogger.warn(message, formatContext(context));
         },
 
-        error: (message: string, error?: Error | string, context?: Record<string, any>): void => {
-            const meta = formatContext(context);
-            if (error instanceof Error) {
-                // Winston handles error objects well if passed as meta or splat
-                // But for explicit structure, let's attach it
-                // Spread error first to capture custom props, then overwrite standard ones to ensure presence
-                const { message, name, stack, ...rest } = error;
-                meta.error = {
-                    ...rest,
-                    message,
-                    name,
-                    stack,
-                };
-            } else if (error) {
-                meta.error = error;
+        error: (message: string, error?: unknown, context?: Record<string, any>): void => {
+            if (shared.logBuffer && shared.logBuffer.flushOnError !== false) {
+                // Buffered debug trail first, so the output stays in chronological order
+                getLogBuffer()?.flush();
+            }
+            if (!shouldWrite('error', message, context)) return;
+            // Copy so the caller's context object is not mutated
+            const meta = { ...formatContext(context) };
+            if (error !== undefined && error !== null) {
+                meta.error = serializeError(error, shared.errorSerialization);
             }
             winstonLogger.error(message, meta);
         },
 
         child: (context: Record<string, any>): Logger => {
+            // Bindings are not checked by the field registry: they are how reserved keys get set
+            const bindings = context || {};
+            // Bound keys are only tracked for the field registry
+            const childBoundKeys = shared.fieldRegistry
+                ? new Set([...boundKeys, ...Object.keys(bindings)])
+                : NO_BOUND_KEYS;
             // Winston's child() returns a new logger instance with the metadata bound
-            return createLoggerWrapper(winstonLogger.child(context));
+            return createLoggerWrapper(
+                winstonLogger.child(bindings),
+                { parent: levelState },
+                shared,
+                childBoundKeys,
+            );
         },
+
+        setLevel: (level: string): void => {
+            const normalized = level.toLowerCase();
+            assertValidLogLevel(normalized);
+            levelState.level = normalized;
+        },
+
+        isLevelEnabled,
+
+        startTimer: () => startTimer(logger),
+
+        withSpan: <T>(name: string, fn: (spanLogger: Logger) => T): T => runSpan(logger, name, fn),
     };
+    return logger;
 };
 
-export const createLogger = (options: CreateLoggerOptions = {}): Logger => {
-    const level = options.level || process.env.LOG_LEVEL || DEFAULT_LOG_LEVEL;
+export const createLogger = <TContext extends object = Record<string, any>>(
+    options: CreateLoggerOptions = {},
+): Logger<TContext> => {
+    // Advanced Logging Controls are set by operators, so they win over the LOG_LEVEL convention
+    let level = (
+        options.level ||
+        getLambdaLogLevel() ||
+        process.env.LOG_LEVEL ||
+        DEFAULT_LOG_LEVEL
+    ).toLowerCase();
+    if (!isValidLogLevel(level)) {
+        console.warn(
+            `AntigravityLogger: unknown log level '${level}', falling back to '${DEFAULT_LOG_LEVEL}'.`,
+        );
+        level = DEFAULT_LOG_LEVEL;
+    }
+    const lambdaJsonFields = options.lambdaJsonFields ?? isLambdaJsonLogFormat();
 
     // Create redactor if config is present
     const redactor = options.redaction ? createRedactor(options.redaction) : null;
@@ -71,23 +234,53 @@ export const createLogger = (options: CreateLoggerOptions = {}): Logger => {
     // Custom format that applies redaction
     const redactionFormat = winston.format((info) => {
         if (redactor) {
-            return redactor(info);
+            const redacted = redactor(info);
+            // Keep Winston's level symbol, which the redactor does not copy.
+            // The splat symbol is dropped on purpose: it holds the unredacted metadata.
+            redacted[LEVEL] = (info as any)[LEVEL];
+            return redacted;
         }
         return info;
     });
 
+    // Size limits run after redaction: a value is masked before it can be cut
+    const sizeLimits = options.sizeLimits;
+    const outputFormat = createOutputFormat(resolveLogFormat(options.format));
+
     const format = winston.format.combine(
         winston.format.timestamp(),
-        redactionFormat(), // Apply redaction before JSON
-        winston.format.json(),
+        redactionFormat(), // Apply redaction before the output format
+        traceContextFormat(options.tracing),
+        ...(lambdaJsonFields ? [lambdaJsonFieldsFormat()] : []),
+        ...(sizeLimits ? [sizeLimitFormat(sizeLimits)] : []),
+        sizeLimits === false
+            ? outputFormat
+            : createMaxBytesFormat(outputFormat, sizeLimits?.maxBytes),
     );
 
+    // Winston lets everything through: filtering happens in the wrapper so the level
+    // can change at runtime and per async context
     const winstonLogger = winston.createLogger({
-        level,
+        level: 'silly',
         format,
         defaultMeta: options.defaultContext,
-        transports: [new winston.transports.Console()],
+        transports: options.transports || [new winston.transports.Console()],
     });
 
-    return createLoggerWrapper(winstonLogger);
+    const fieldRegistry = options.fieldRegistry
+        ? createFieldRegistry(options.fieldRegistry)
+        : undefined;
+
+    // The typed context only exists at compile time: every Logger<TContext> is the same wrapper
+    return createLoggerWrapper(
+        winstonLogger,
+        { level },
+        {
+            errorSerialization: options.errorSerialization || {},
+            sampler: options.sampling ? createSampler(options.sampling) : undefined,
+            logBuffer: options.logBuffer,
+            fieldRegistry,
+        },
+        fieldRegistry ? new Set(Object.keys(options.defaultContext || {})) : NO_BOUND_KEYS,
+    ) as Logger<TContext>;
 };
@@ -0,0 +1,121 @@
+import { Logger, MetricUnit, Metrics } from './types';
+import { DEFAULT_METRICS_NAMESPACE } from './constants';
+
+// CloudWatch EMF limits
+const MAX_METRICS_PER_DOCUMENT = 100;
+const MAX_DIMENSIONS_PER_SET = 30;
+const MAX_VALUES_PER_METRIC = 100;
+
+export const EMF_LOG_MESSAGE = 'EMF Metrics';
+
+export interface CreateMetricsOptions {
+    /**
+     * CloudWatch namespace (default: process.env.METRICS_NAMESPACE || 'Application')
+     */
+    namespace?: string;
+    /**
+     * Dimensions added to every metric, on top of the ones set via setDimensions
+     */
+    defaultDimensions?: Record<string, string>;
+}
+
+interface MetricEntry {
+    unit: MetricUnit;
+    values: number[];
+}
+
+/**
+ * Creates a collector that writes CloudWatch Embedded Metric Format documents
+ * through the given logger, so they share the Winston pipeline (and transport) of the logs.
+ * Documents are written at 'info' level.
+ */
+export const createMetrics = (logger: Logger, options: CreateMetricsOptions = {}): Metrics => {
+    let namespace = options.namespace || process.env.METRICS_NAMESPACE || DEFAULT_METRICS_NAMESPACE;
+    let dimensions: Record<string, string> = {};
+    let entries = new Map<string, MetricEntry>();
+
+    const writeDocument = (
+        batch: [string, MetricEntry][],
+        allDimensions: Record<string, string>,
+    ) => {
+        const document: Record<string, any> = {
+            _aws: {
+                Timestamp: Date.now(),
+                CloudWatchMetrics: [
+                    {
+                        Namespace: namespace,
+                        Dimensions: [Object.keys(allDimensions)],
+                        Metrics: batch.map(([name, entry]) => ({ Name: name, Unit: entry.unit })),
+                    },
+                ],
+            },
+            ...allDimensions,
+        };
+        for (const [name, entry] of batch) {
+            document[name] = entry.values.length === 1 ? entry.values[0] : entry.values;
+        }
+        logger.info(EMF_LOG_MESSAGE, document);
+    };
+
+    return {
+        putMetric: (name: string, value: number, unit: MetricUnit = 'None'): void => {
+            const entry = entries.get(name);
+            if (entry) {
+                entry.values.push(value);
+                entry.unit = unit;
+            } else {
+                entries.set(name, { unit, values: [value] });
+            }
+        },
+
+        setDimensions: (newDimensions: Record<string, string>): void => {
+            dimensions = { ...newDimensions };
+        },
+
+        setNamespace: (newNamespace: string): void => {
+            namespace = newNamespace;
+        },
+
+        flush: (): void => {
+            if (entries.size === 0) return;
+
+            const dimensionEntries = Object.entries({
+                ...options.defaultDimensions,
+                ...dimensions,
+            });
+            if (dimensionEntries.length > MAX_DIMENSIONS_PER_SET) {
+                logger.warn('EMF dimension limit exceeded, extra dimensions dropped', {
+                    limit: MAX_DIMENSIONS_PER_SET,
+                });
+            }
+            const allDimensions = Object.fromEntries(
+                dimensionEntries.slice(0, MAX_DIMENSIONS_PER_SET),
+            );
+
+            // Split into spec-compliant documents: at most 100 metrics, 100 values per metric
+            const flattened: [string, MetricEntry][] = [];
+            for (const [name, entry] of entries) {
+                for (let i = 0; i < entry.values.length; i += MAX_VALUES_PER_METRIC) {
+                    const values = entry.values.slice(i, i + MAX_VALUES_PER_METRIC);
+                    flattened.push([name, { unit: entry.unit, values }]);
+                }
+            }
+            entries = new Map();
+
+            // A metric name may appear once per document
+            while (flattened.length > 0) {
+                const batch: [string, MetricEntry][] = [];
+                const names = new Set<string>();
+                for (let i = 0; i < flattened.length && batch.length < MAX_METRICS_PER_DOCUMENT; ) {
+                    if (names.has(flattened[i][0])) {
+                        i++;
+                        continue;
+                    }
+                    names.add(flattened[i][0]);
+                    batch.push(...flattened.splice(i, 1));
+                }
+                writeDocument(batch, allDimensions);
+            }
+        },
+    };
+};
@@ -0,0 +1,48 @@
+/**
+ * Path rules for the redactor, in a JSONPath-like / glob syntax:
+ *   'event.headers.authorization'   exact path
+ *   'headers["x-api-key"]'          bracket notation for keys with special characters
+ *   'event.body.user.*.ssn'         '*' matches exactly one key or array index
+ *   '**.password'                   '**' matches any number of keys (including none)
+ * A leading '$' (JSONPath root) is ignored. Segments are matched case-insensitively.
+ */
+
+const SEGMENT_PATTERN = /\[\s*(?:"([^"]*)"|'([^']*)'|([^\]]*?))\s*\]|([^.[\]]+)/g;
+
+export type PathMatcher = (path: string[]) => boolean;
+
+export const parseRedactionPath = (path: string): string[] => {
+    const segments: string[] = [];
+    for (const match of path.matchAll(SEGMENT_PATTERN)) {
+        const segment = match[1] ?? match[2] ?? match[3] ?? match[4];
+        segments.push(segment.trim());
+    }
+    if (segments[0] === '$') segments.shift();
+    return segments.map((segment) =>
+        segment === '*' || segment === '**' ? segment : segment.toLowerCase(),
+    );
+};
+
+const matchSegments = (pattern: string[], p: number, path: string[], i: number): boolean => {
+    if (p === pattern.length) return i === path.length;
+
+    const segment = pattern[p];
+    if (segment === '**') {
+        // Zero segments, or consume one and stay on '**'
+        return (
+            matchSegments(pattern, p + 1, path, i) ||
+            (i < path.length && matchSegments(pattern, p, path, i + 1))
+        );
+    }
+    if (i === path.length) return false;
+    if (segment !== '*' && segment !== path[i].toLowerCase()) return false;
+    return matchSegments(pattern, p + 1, path, i + 1);
+};
+
+/**
+ * Compiles a path rule once into a matcher for the key path of a value.
+ */
+export const compilePathMatcher = (path: string): PathMatcher => {
+    const pattern = parseRedactionPath(path);
+    return (candidate: string[]) => matchSegments(pattern, 0, candidate, 0);
+};
@@ -1,15 +1,47 @@
 import crypto from 'crypto';
+import { PathMatcher, compilePathMatcher } from './redaction-paths';
 
-export type RedactionStrategy = 'mask' | 'remove' | 'hash' | string | ((value: any) => any);
+/**
+ * 'mask'         '*****'
+ * 'mask-last-N'  keep the last N characters
+ * 'mask-email'   keep the domain
+ * 'mask-card'    keep the BIN and the last 4 digits
+ * 'remove'       drop the key
+ * 'hash'         unsalted SHA-256 (reversible for low-entropy values, prefer 'hmac')
+ * 'hmac'         HMAC-SHA-256 keyed with RedactionConfig.hashKey (or its env var)
+ * 'hash-N' / 'hmac-N'  digest truncated to N (>= 1) hex characters
+ */
+export type RedactionStrategy =
+    | 'mask'
+    | 'remove'
+    | 'hash'
+    | 'hmac'
+    | 'mask-email'
+    | 'mask-card'
+    | string
+    | ((value: any) => any);
 
 export interface RedactionConfig {
     /**
-     * Array of keys to redact.
+     * Array of keys to redact, anywhere in the object.
      * Case-insensitive matching is recommended/implemented.
      */
-    keys: string[];
+    keys?: string[];
+    /**
+     * Regular expressions tested against each key name (e.g. /^x-.*-token$/i)
+     */
+    keyPatterns?: RegExp[];
+    /**
+     * Path rules, e.g. 'event.headers.authorization', 'headers["x-api-key"]',
+     * 'event.body.user.*.ssn' or '**.password' (see redaction-paths)
+     */
+    paths?: string[];
     /**
-     * Map of specific key to strategy.
+     * Paths that are never redacted, including everything below them (e.g. 'pagination.token')
+     */
+    allowPaths?: string[];
+    /**
+     * Map of specific key (or path rule) to strategy.
      * If a key is in 'keys' but not here, it uses the default strategy ('mask').
      */
     strategies?: Record<string, RedactionStrategy>;
@@ -18,6 +50,62 @@ export interface RedactionConfig {
      * Default: 'mask'
      */
     defaultStrategy?: RedactionStrategy;
+    /**
+     * Value-level detectors. Every string value (including 'message') is scanned
+     * and matches are replaced in place.
+     */
+    patterns?: RedactionPattern[];
+    /**
+     * String fields that hold encoded payloads (API Gateway / SQS 'body'...) to decode,
+     * redact inside and re-encode. Opt-in per path so other strings are never parsed.
+     */
+    encodedFields?: EncodedFieldsConfig;
+    /**
+     * Secret for the 'hmac' strategies. Default: the value of the env var named by hashKeyEnv.
+     */
+    hashKey?: string;
+    /**
+     * Env var holding the HMAC secret (default: 'REDACTION_HMAC_KEY')
+     */
+    hashKeyEnv?: string;
+}
+
+export interface EncodedFieldsConfig {
+    /**
+     * Path rules of the fields to decode, e.g. 'event.body' or 'event.Records.*.body'
+     */
+    paths: string[];
+    /**
+     * Strings longer than this are left encoded (default: 65536)
+     */
+    maxLength?: number;
+    /**
+     * Also decode base64 strings that contain JSON (default: false)
+     */
+    base64?: boolean;
+    /**
+     * Also decode 'application/x-www-form-urlencoded' bodies (default: false)
+     */
+    formUrlEncoded?: boolean;
+}
+
+export interface RedactionPattern {
+    /**
+     * Name of the detector, passed to function strategies
+     */
+    name: string;
+    /**
+     * Expression to search for. A global copy is used if the 'g' flag is missing.
+     */
+    regex: RegExp;
+    /**
+     * Strategy applied to each match (default: the config's defaultStrategy, else 'mask')
+     */
+    strategy?: RedactionStrategy;
+    /**
+     * Extra check on a match (e.g. Luhn) to reduce false positives
+     */
+    validate?: (match: string) => boolean;
 }
 
 export const COMMON_REDACTION_KEYS = [
@@ -39,14 +127,176 @@ export const COMMON_REDACTION_KEYS = [
     'pin',
 ];
 
+/**
+ * Luhn checksum, used to tell card numbers (PANs) apart from other long digit runs.
+ */
+export const isValidLuhn = (value: string): boolean => {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) return false;
+
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+export const COMMON_REDACTION_PATTERNS: RedactionPattern[] = [
+    {
+        name: 'jwt',
+        regex: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    },
+    {
+        name: 'bearer',
+        regex: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    },
+    {
+        name: 'awsAccessKeyId',
+        regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g,
+    },
+    {
+        name: 'awsSecretAccessKey',
+        regex: /(?<![A-Za-z0-9/+])[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+=])/g,
+        // Require mixed case and digits so hex digests (e.g. git SHAs) are left alone
+        validate: (match) => /[A-Z]/.test(match) && /[a-z]/.test(match) && /\d/.test(match),
+    },
+    {
+        name: 'creditCard',
+        regex: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+        validate: isValidLuhn,
+    },
+    {
+        name: 'email',
+        regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    },
+    {
+        name: 'phone',
+        regex: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?!\w)|(?<![\w+])\+\d{8,15}(?!\w)/g,
+    },
+];
+
+export interface StrategyOptions {
+    /**
+     * Secret for the 'hmac' strategies
+     */
+    hashKey?: string;
+}
+
+const HEX_DIGEST_PATTERN = /^[a-f0-9]{64}$/;
+
+const TRUNCATED_DIGEST_PATTERN = /^(hash|hmac)-(\d+)$/;
+
+/**
+ * Deterministic JSON serialization: object keys are sorted so equal values hash the same.
+ */
+export const stableStringify = (value: any, seen = new Set<any>()): string => {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? String(value);
+    }
+    // Dates (and anything else with toJSON) hash as what they serialize to
+    if (typeof value.toJSON === 'function') {
+        const json = value.toJSON();
+        if (json !== value) return stableStringify(json, seen);
+    }
+    if (seen.has(value)) return '"[Circular]"';
+    seen.add(value);
+
+    let serialized: string;
+    if (value instanceof Map) {
+        // Entries sorted like object keys, tagged so a Map never equals a plain array
+        const entries = Array.from(value, ([key, item]) =>
+            stableStringify([key, item], seen),
+        ).sort();
+        serialized = `{"$map":[${entries.join(',')}]}`;
+    } else if (value instanceof Set) {
+        const items = Array.from(value, (item) => stableStringify(item, seen)).sort();
+        serialized = `{"$set":[${items.join(',')}]}`;
+    } else if (Array.isArray(value)) {
+        serialized = `[${value.map((item) => stableStringify(item, seen)).join(',')}]`;
+    } else {
+        serialized = `{${Object.keys(value)
+            .sort()
+            .filter((key) => value[key] !== undefined)
+            .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key], seen)}`)
+            .join(',')}}`;
+    }
+    seen.delete(value);
+    return serialized;
+};
+
+/**
+ * Hex SHA-256 digest, shared by the 'hash' strategy and the audit hash chain.
+ */
+export const sha256Hex = (input: string): string => {
+    return crypto.createHash('sha256').update(input).digest('hex');
+};
+
+/**
+ * Strings and numbers are hashed as their string form (unchanged from the original 'hash'),
+ * booleans, objects and arrays through stableStringify.
+ */
+const toHashInput = (value: any): string | undefined => {
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+    if (typeof value === 'boolean' || (value !== null && typeof value === 'object')) {
+        return stableStringify(value);
+    }
+    return undefined;
+};
+
+/**
+ * Keeps the domain: 'alice@example.com' -> '*****@example.com'
+ */
+const maskEmail = (value: any): string => {
+    if (typeof value !== 'string') return '*****';
+    const at = value.lastIndexOf('@');
+    return at > 0 && at < value.length - 1 ? `*****${value.slice(at)}` : '*****';
+};
+
+/**
+ * Keeps the BIN (first 6 digits) and the last 4 digits, and the original separators:
+ * '4111 1111 1111 1111' -> '4111 11** **** 1111'
+ */
+const maskCard = (value: any): string => {
+    const str = typeof value === 'number' ? String(value) : value;
+    if (typeof str !== 'string') return '*****';
+
+    const digitCount = str.replace(/\D/g, '').length;
+    if (digitCount < 13 || digitCount > 19) return '*****';
+
+    let index = 0;
+    return str.replace(/\d/g, (digit) => {
+        const position = index++;
+        return position < 6 || position >= digitCount - 4 ? digit : '*';
+    });
+};
+
 /**
  * Applies the redaction strategy to a single value.
  */
-const applyStrategy = (value: any, strategy: RedactionStrategy): any => {
+const applyStrategy = (
+    value: any,
+    strategy: RedactionStrategy,
+    options: StrategyOptions = {},
+): any => {
     if (typeof strategy === 'function') {
         return strategy(value);
     }
 
+    // Truncated digests: 'hash-16', 'hmac-16'
+    const truncated = typeof strategy === 'string' && TRUNCATED_DIGEST_PATTERN.exec(strategy);
+    if (truncated) {
+        const length = parseInt(truncated[2], 10);
+        // Rejected by compileRedactionConfig; an empty digest must never stand in for a value
+        if (length < 1) return '*****';
+        const digest = applyStrategy(value, truncated[1], options);
+        return HEX_DIGEST_PATTERN.test(digest) ? digest.slice(0, length) : digest;
+    }
+
     if (typeof strategy === 'string' && strategy.startsWith('mask-last-')) {
         const parts = strategy.split('-');
         const lastN = parseInt(parts[2], 10);
@@ -71,25 +321,251 @@ const applyStrategy = (value: any, strategy: RedactionStrategy): any => {
     switch (strategy) {
         case 'remove':
             return undefined;
-        case 'hash':
-            if (typeof value === 'string' || typeof value === 'number') {
-                return crypto.createHash('sha256').update(String(value)).digest('hex');
-            }
-            return '[HASH_FAILED_TYPE]';
+        case 'hash': {
+            const input = toHashInput(value);
+            if (input === undefined) return '[HASH_FAILED_TYPE]';
+            return sha256Hex(input);
+        }
+        case 'hmac': {
+            const input = toHashInput(value);
+            if (input === undefined) return '[HASH_FAILED_TYPE]';
+            if (!options.hashKey) return '[HMAC_KEY_MISSING]';
+            return crypto.createHmac('sha256', options.hashKey).update(input).digest('hex');
+        }
+        case 'mask-email':
+            return maskEmail(value);
+        case 'mask-card':
+            return maskCard(value);
         case 'mask':
         default:
             return '*****';
     }
 };
 
+// Global copies of non-global pattern regexes, so String.replace finds every match
+const globalRegexCache = new WeakMap<RegExp, RegExp>();
+
+const toGlobalRegex = (regex: RegExp): RegExp => {
+    if (regex.global) return regex;
+    let cached = globalRegexCache.get(regex);
+    if (!cached) {
+        cached = new RegExp(regex.source, `${regex.flags}g`);
+        globalRegexCache.set(regex, cached);
+    }
+    return cached;
+};
+
 /**
- * Recursively walks the object and redacts fields matching the config.
+ * Replaces every pattern match inside a string with the result of its strategy.
  */
-export const recursiveRedact = (
+export const redactString = (
+    value: string,
+    patterns: RedactionPattern[],
+    defaultStrategy: RedactionStrategy = 'mask',
+    options: StrategyOptions = {},
+): string => {
+    let result = value;
+    for (const pattern of patterns) {
+        result = result.replace(toGlobalRegex(pattern.regex), (match) => {
+            if (pattern.validate && !pattern.validate(match)) return match;
+            const replaced = applyStrategy(match, pattern.strategy ?? defaultStrategy, options);
+            return replaced === undefined ? '' : String(replaced);
+        });
+    }
+    return result;
+};
+
+interface PathRule {
+    path: string;
+    matches: PathMatcher;
+}
+
+/**
+ * A RedactionConfig with every rule prepared for lookups, built once per redactor.
+ */
+export interface CompiledRedactionConfig {
+    keys: Set<string>;
+    keyPatterns: RegExp[];
+    paths: PathRule[];
+    allowPaths: PathMatcher[];
+    strategies: Record<string, RedactionStrategy>;
+    lowerCaseStrategies: Map<string, RedactionStrategy>;
+    defaultStrategy: RedactionStrategy;
+    patterns: RedactionPattern[];
+    hashKey?: string;
+    encodedFields?: {
+        paths: PathMatcher[];
+        maxLength: number;
+        base64: boolean;
+        formUrlEncoded: boolean;
+    };
+}
+
+const DEFAULT_ENCODED_FIELD_MAX_LENGTH = 65536;
+const DEFAULT_HASH_KEY_ENV = 'REDACTION_HMAC_KEY';
+
+/**
+ * Throws on a 'hash-N' / 'hmac-N' strategy with N < 1, which would log an empty string.
+ */
+const assertValidStrategy = (strategy: RedactionStrategy | undefined): void => {
+    const truncated = typeof strategy === 'string' && TRUNCATED_DIGEST_PATTERN.exec(strategy);
+    if (truncated && parseInt(truncated[2], 10) < 1) {
+        throw new Error(
+            `Invalid redaction strategy '${strategy}': digest length must be at least 1`,
+        );
+    }
+};
+
+export const compileRedactionConfig = (config: RedactionConfig): CompiledRedactionConfig => {
+    const strategies = config.strategies || {};
+    Object.values(strategies).forEach(assertValidStrategy);
+    assertValidStrategy(config.defaultStrategy);
+    (config.patterns || []).forEach((pattern) => assertValidStrategy(pattern.strategy));
+    const lowerCaseStrategies = new Map<string, RedactionStrategy>();
+    for (const [key, strategy] of Object.entries(strategies)) {
+        // First declared wins, matching a case-insensitive find() over the map
+        if (!lowerCaseStrategies.has(key.toLowerCase())) {
+            lowerCaseStrategies.set(key.toLowerCase(), strategy);
+        }
+    }
+
+    return {
+        keys: new Set((config.keys || []).map((k) => k.toLowerCase())),
+        // 'g' / 'y' make test() stateful (lastIndex), so consecutive keys would alternate
+        keyPatterns: (config.keyPatterns || []).map((regex) =>
+            regex.global || regex.sticky
+                ? new RegExp(regex.source, regex.flags.replace(/[gy]/g, ''))
+                : regex,
+        ),
+        paths: (config.paths || []).map((path) => ({ path, matches: compilePathMatcher(path) })),
+        allowPaths: (config.allowPaths || []).map(compilePathMatcher),
+        strategies,
+        lowerCaseStrategies,
+        defaultStrategy: config.defaultStrategy || 'mask',
+        patterns: config.patterns || [],
+        hashKey: config.hashKey ?? process.env[config.hashKeyEnv || DEFAULT_HASH_KEY_ENV],
+        encodedFields: config.encodedFields && {
+            paths: config.encodedFields.paths.map(compilePathMatcher),
+            maxLength: config.encodedFields.maxLength ?? DEFAULT_ENCODED_FIELD_MAX_LENGTH,
+            base64: config.encodedFields.base64 ?? false,
+            formUrlEncoded: config.encodedFields.formUrlEncoded ?? false,
+        },
+    };
+};
+
+/**
+ * Returns the strategy for a value that must be redacted, or undefined to keep walking.
+ * Precedence: exact key in 'strategies', case-insensitive key, matched path rule, default.
+ */
+const findStrategy = (
+    key: string,
+    path: string[],
+    compiled: CompiledRedactionConfig,
+): RedactionStrategy | undefined => {
+    const lowerKey = key.toLowerCase();
+    const pathRule = compiled.paths.find((rule) => rule.matches(path));
+    const keyMatched =
+        compiled.keys.has(lowerKey) || compiled.keyPatterns.some((regex) => regex.test(key));
+
+    if (!keyMatched && !pathRule) return undefined;
+
+    if (keyMatched) {
+        const byKey = compiled.strategies[key] ?? compiled.lowerCaseStrategies.get(lowerKey);
+        if (byKey) return byKey;
+    }
+    if (pathRule && compiled.strategies[pathRule.path]) {
+        return compiled.strategies[pathRule.path];
+    }
+    return compiled.defaultStrategy;
+};
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const FORM_URL_ENCODED_PATTERN = /^[^=&\s]+=[^&\s]*(?:&[^=&\s]+=[^&\s]*)*$/;
+
+const parseJsonContainer = (value: string): object | undefined => {
+    const trimmed = value.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return undefined;
+    try {
+        const parsed = JSON.parse(trimmed);
+        return parsed !== null && typeof parsed === 'object' ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Decodes an opted-in string field (JSON, base64 JSON or form body), redacts inside it
+ * and re-encodes it. Returns undefined when the string is not in a supported encoding.
+ */
+const redactEncodedString = (
+    value: string,
+    compiled: CompiledRedactionConfig,
+    cache: Set<any>,
+    path: string[],
+): string | undefined => {
+    const options = compiled.encodedFields!;
+    if (value.length > options.maxLength) return undefined;
+
+    const json = parseJsonContainer(value);
+    if (json) {
+        return JSON.stringify(redactValue(json, compiled, cache, path));
+    }
+
+    if (options.base64 && value.length >= 4 && BASE64_PATTERN.test(value)) {
+        const decodedJson = parseJsonContainer(Buffer.from(value, 'base64').toString('utf8'));
+        if (decodedJson) {
+            const redacted = JSON.stringify(redactValue(decodedJson, compiled, cache, path));
+            return Buffer.from(redacted, 'utf8').toString('base64');
+        }
+    }
+
+    if (options.formUrlEncoded && FORM_URL_ENCODED_PATTERN.test(value)) {
+        const params = new URLSearchParams(value);
+        const fields: Record<string, string[]> = {};
+        for (const [key, fieldValue] of params) {
+            (fields[key] ||= []).push(fieldValue);
+        }
+
+        // Single values are redacted as plain fields so key rules apply to them directly
+        const flattened = Object.fromEntries(
+            Object.entries(fields).map(([key, values]) => [
+                key,
+                values.length === 1 ? values[0] : values,
+            ]),
+        );
+        const redacted = redactValue(flattened, compiled, cache, path);
+
+        const output = new URLSearchParams();
+        for (const [key, fieldValue] of Object.entries(redacted)) {
+            for (const item of Array.isArray(fieldValue) ? fieldValue : [fieldValue]) {
+                if (item !== undefined) output.append(key, String(item));
+            }
+        }
+        return output.toString();
+    }
+
+    return undefined;
+};
+
+const redactValue = (
     target: any,
-    config: RedactionConfig,
-    cache = new Set<any>(),
+    compiled: CompiledRedactionConfig,
+    cache: Set<any>,
+    path: string[],
 ): any => {
+    if (
+        typeof target === 'string' &&
+        compiled.encodedFields &&
+        compiled.encodedFields.paths.some((matches) => matches(path))
+    ) {
+        const decoded = redactEncodedString(target, compiled, cache, path);
+        if (decoded !== undefined) return decoded;
+    }
+
+    if (typeof target === 'string' && compiled.patterns.length > 0) {
+        return redactString(target, compiled.patterns, compiled.defaultStrategy, compiled);
+    }
+
     if (target === null || typeof target !== 'object') {
         return target;
     }
@@ -100,57 +576,64 @@ export const recursiveRedact = (
     }
     cache.add(target);
 
-    // Handle Arrays
-    if (Array.isArray(target)) {
-        return target.map((item) => recursiveRedact(item, config, cache));
-    }
-
-    // Handle Objects
-    const redactedObj: Record<string, any> = {};
-    const keysToRedact = new Set(config.keys.map((k) => k.toLowerCase()));
-
-    for (const [key, value] of Object.entries(target)) {
-        const lowerKey = key.toLowerCase();
-
-        if (keysToRedact.has(lowerKey)) {
-            // Determine strategy
-            let strategy = config.defaultStrategy || 'mask';
-            if (config.strategies && config.strategies[key]) {
-                // Try exact match first
-                strategy = config.strategies[key];
-            } else if (config.strategies) {
-                // Try case-insensitive lookup in strategies if needed,
-                // but for simplicity let's rely on specific keys matching or default.
-                // Actually, user might put 'Password': 'hash' and we matched 'password'.
-                // Let's iterate strategies keys to find case-insensitive match if strictly needed.
-                // For performance/simplicity, strict case matching in strategies map is safer,
-                // but generic 'keys' list is case-insensitive.
-
-                // Let's look for a key in strategies that matches lowerKey
-                const strategyKey = Object.keys(config.strategies).find(
-                    (k) => k.toLowerCase() === lowerKey,
-                );
-                if (strategyKey) {
-                    strategy = config.strategies[strategyKey];
-                }
-            }
+    const entries: [string, any][] = Array.isArray(target)
+        ? target.map((item, index) => [String(index), item])
+        : Object.entries(target);
+    const redacted: Record<string, any> = {};
 
-            const result = applyStrategy(value, strategy);
-            if (result !== undefined) {
-                redactedObj[key] = result;
-            }
-            // If undefined (remove strategy), we just don't add the key.
+    for (const [key, value] of entries) {
+        path.push(key);
+
+        if (compiled.allowPaths.some((matches) => matches(path))) {
+            // Allow-listed: the whole subtree is kept as is
+            redacted[key] = value;
         } else {
-            // Recurse
-            redactedObj[key] = recursiveRedact(value, config, cache);
+            const strategy = findStrategy(key, path, compiled);
+            if (strategy !== undefined) {
+                const result = applyStrategy(value, strategy, compiled);
+                // If undefined (remove strategy), we just don't add the key.
+                if (result !== undefined) {
+                    redacted[key] = result;
+                }
+            } else {
+                // Recurse
+                redacted[key] = redactValue(value, compiled, cache, path);
+            }
         }
+
+        path.pop();
+    }
+
+    if (Array.isArray(target)) {
+        // Keep the array shape; removed items become undefined rather than shifting indices
+        return target.map((_, index) => redacted[String(index)]);
     }
+    return redacted;
+};
+
+const isCompiled = (
+    config: RedactionConfig | CompiledRedactionConfig,
+): config is CompiledRedactionConfig => {
+    return config.keys instanceof Set;
+};
 
-    return redactedObj;
+/**
+ * Recursively walks the object and redacts fields matching the config.
+ * Accepts a raw config (compiled on every call) or one compiled with compileRedactionConfig.
+ */
+export const recursiveRedact = (
+    target: any,
+    config: RedactionConfig | CompiledRedactionConfig,
+    cache = new Set<any>(),
+): any => {
+    const compiled = isCompiled(config) ? config : compileRedactionConfig(config);
+    return redactValue(target, compiled, cache, []);
 };
 
 export const createRedactor = (config: RedactionConfig) => {
+    // Rules are compiled once, not on every object
+    const compiled = compileRedactionConfig(config);
     return (info: any) => {
-        return recursiveRedact(info, config);
+        return redactValue(info, compiled, new Set<any>(), []);
     };
 };
@@ -0,0 +1,131 @@
+import { getSamplingSeed } from './context';
+
+export interface SamplingConfig {
+    /**
+     * Fraction of records kept per level, e.g. { debug: 0.1, info: 0.5 }.
+     * Levels not listed are always kept.
+     */
+    rates?: Record<string, number>;
+    /**
+     * Token bucket per message template: at most 'tokens' records per 'intervalMs'
+     * for the same message.
+     */
+    rateLimit?: {
+        tokens: number;
+        intervalMs: number;
+    };
+    /**
+     * How often the "messages suppressed" summary may be written (default: 60000).
+     * It is written by the next log call once the interval has elapsed.
+     */
+    summaryIntervalMs?: number;
+}
+
+export interface SuppressionSummary {
+    suppressedCount: number;
+    sampledOut: number;
+    rateLimited: number;
+    /**
+     * Suppressed count per message template (rate limited only)
+     */
+    messages: Record<string, number>;
+}
+
+export interface Sampler {
+    /**
+     * Returns false if the record must be dropped (sampled out or rate limited).
+     */
+    shouldLog(level: string, message: string): boolean;
+    /**
+     * Returns the suppression counters if a summary is due, and resets them.
+     */
+    takeSummary(): SuppressionSummary | undefined;
+}
+
+const DEFAULT_SUMMARY_INTERVAL_MS = 60000;
+
+// Bounds the rate limiter memory when messages are built with interpolated values
+const MAX_TRACKED_TEMPLATES = 1000;
+
+interface Bucket {
+    tokens: number;
+    refilledAt: number;
+}
+
+export const createSampler = (config: SamplingConfig): Sampler => {
+    const buckets = new Map<string, Bucket>();
+    const summaryIntervalMs = config.summaryIntervalMs ?? DEFAULT_SUMMARY_INTERVAL_MS;
+
+    let lastSummaryAt = Date.now();
+    let sampledOut = 0;
+    let rateLimited = 0;
+    // A Map, so templates like 'constructor' or '__proto__' are plain keys
+    let messages = new Map<string, number>();
+
+    const isSampledIn = (level: string): boolean => {
+        const rate = config.rates?.[level];
+        if (rate === undefined || rate >= 1) return true;
+        if (rate <= 0) return false;
+        // Outside of a request context every record gets its own roll
+        return (getSamplingSeed() ?? Math.random()) < rate;
+    };
+
+    const takeToken = (message: string): boolean => {
+        const limit = config.rateLimit;
+        if (!limit) return true;
+
+        const now = Date.now();
+        let bucket = buckets.get(message);
+        if (!bucket) {
+            if (buckets.size >= MAX_TRACKED_TEMPLATES) {
+                // Oldest template first (Map keeps insertion order)
+                buckets.delete(buckets.keys().next().value as string);
+            }
+            bucket = { tokens: limit.tokens, refilledAt: now };
+            buckets.set(message, bucket);
+        } else {
+            const refill = ((now - bucket.refilledAt) / limit.intervalMs) * limit.tokens;
+            bucket.tokens = Math.min(limit.tokens, bucket.tokens + refill);
+            bucket.refilledAt = now;
+        }
+
+        if (bucket.tokens < 1) return false;
+        bucket.tokens -= 1;
+        return true;
+    };
+
+    return {
+        shouldLog: (level: string, message: string): boolean => {
+            if (!isSampledIn(level)) {
+                sampledOut += 1;
+                return false;
+            }
+            if (!takeToken(message)) {
+                rateLimited += 1;
+                if (messages.has(message) || messages.size < MAX_TRACKED_TEMPLATES) {
+                    messages.set(message, (messages.get(message) || 0) + 1);
+                }
+                return false;
+            }
+            return true;
+        },
+
+        takeSummary: (): SuppressionSummary | undefined => {
+            const now = Date.now();
+            if (now - lastSummaryAt < summaryIntervalMs) return undefined;
+            if (sampledOut === 0 && rateLimited === 0) return undefined;
+
+            const summary = {
+                suppressedCount: sampledOut + rateLimited,
+                sampledOut,
+                rateLimited,
+                messages: Object.fromEntries(messages),
+            };
+            lastSummaryAt = now;
+            sampledOut = 0;
+            rateLimited = 0;
+            messages = new Map();
+            return summary;
+        },
+    };
+};
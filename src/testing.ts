@@ -0,0 +1,170 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import { CreateLoggerOptions, createLogger } from './logger';
+import { MemoryTransport } from './transports';
+import { SerializedError } from './error-serializer';
+import { Logger } from './types';
+
+/**
+ * Test harness, published as '@vitkuz/aws-logger/testing':
+ * an in-memory logger with query and assert helpers, and a fake Lambda context.
+ */
+
+export interface TestLogEntry {
+    level: string;
+    message: string;
+    /**
+     * Default, child and call context merged, as written (after redaction)
+     */
+    context: Record<string, any>;
+    /**
+     * Serialized error passed to logger.error()
+     */
+    error?: SerializedError;
+    /**
+     * Rendered output line, after redaction
+     */
+    output: string;
+}
+
+export type TestLoggerOptions = Omit<CreateLoggerOptions, 'transports' | 'format'>;
+
+export interface TestLogger extends Logger {
+    /**
+     * Transport collecting the records. Pass it to withLogger / createHttpLogger
+     * ({ transports: [testLogger.transport] }) to capture a wrapped handler's output.
+     */
+    readonly transport: MemoryTransport;
+    /**
+     * Every record written by this logger, its children and any logger sharing the transport
+     */
+    readonly entries: TestLogEntry[];
+    findByMessage(message: string | RegExp): TestLogEntry | undefined;
+    filterByLevel(level: string): TestLogEntry[];
+    /**
+     * Throws unless a record with the given message (and level, if given) was written.
+     */
+    expectLogged(message: string | RegExp, level?: string): TestLogEntry;
+    /**
+     * Throws if any of the values appears anywhere in the written output.
+     */
+    expectNoSecrets(secrets: string[]): void;
+    clear(): void;
+}
+
+// Fields Winston adds to every record, not part of the caller's context
+const RECORD_FIELDS = new Set(['level', 'message', 'timestamp', 'error']);
+
+const matches = (entry: TestLogEntry, message: string | RegExp): boolean => {
+    return typeof message === 'string' ? entry.message === message : message.test(entry.message);
+};
+
+const toEntry = (record: Record<string, any>, output: string): TestLogEntry => {
+    const context: Record<string, any> = {};
+    for (const [key, value] of Object.entries(record)) {
+        if (!RECORD_FIELDS.has(key)) context[key] = value;
+    }
+    return {
+        // Lambda's JSON log format uppercases the level
+        level: String(record.level).toLowerCase(),
+        message: record.message,
+        context,
+        ...(record.error !== undefined ? { error: record.error } : {}),
+        output,
+    };
+};
+
+/**
+ * Creates a logger that records structured entries in memory, through the same pipeline
+ * (level filtering, redaction, sampling) as a production logger. Output is rendered as JSON.
+ *
+ * @param options Logger options (level, redaction, etc.)
+ */
+export const createTestLogger = (options: TestLoggerOptions = {}): TestLogger => {
+    const transport = new MemoryTransport();
+    const logger = createLogger({ ...options, format: 'json', transports: [transport] });
+
+    const getEntries = (): TestLogEntry[] =>
+        transport.entries.map((record, index) => toEntry(record, transport.lines[index]));
+
+    const describe = (message: string | RegExp, level?: string) =>
+        `${level ? `${level} ` : ''}record '${String(message)}'`;
+
+    return {
+        ...logger,
+        transport,
+
+        get entries() {
+            return getEntries();
+        },
+
+        findByMessage: (message: string | RegExp): TestLogEntry | undefined => {
+            return getEntries().find((entry) => matches(entry, message));
+        },
+
+        filterByLevel: (level: string): TestLogEntry[] => {
+            return getEntries().filter((entry) => entry.level === level);
+        },
+
+        expectLogged: (message: string | RegExp, level?: string): TestLogEntry => {
+            const entry = getEntries().find(
+                (candidate) =>
+                    matches(candidate, message) &&
+                    (level === undefined || candidate.level === level),
+            );
+            if (!entry) {
+                const written = getEntries().map((e) => `${e.level}: ${e.message}`);
+                assert.fail(
+                    `Expected a ${describe(message, level)}, got: ${JSON.stringify(written)}`,
+                );
+            }
+            return entry;
+        },
+
+        expectNoSecrets: (secrets: string[]): void => {
+            for (const [index, line] of transport.lines.entries()) {
+                const leaked = secrets.find((secret) => secret !== '' && line.includes(secret));
+                if (leaked !== undefined) {
+                    assert.fail(`Secret value found in log record ${index}: ${line}`);
+                }
+            }
+        },
+
+        clear: (): void => transport.clear(),
+    };
+};
+
+export interface FakeLambdaContextOptions {
+    awsRequestId?: string;
+    functionName?: string;
+    functionVersion?: string;
+    memoryLimitInMB?: string;
+    /**
+     * Function timeout: getRemainingTimeInMillis() counts down from it (default: 3000)
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Builds an object shaped like the Lambda context, to run withLogger-wrapped handlers in-process.
+ * 'awsRequestId' is a fresh UUID unless given.
+ */
+export const createFakeLambdaContext = (options: FakeLambdaContextOptions = {}) => {
+    const functionName = options.functionName ?? 'test-function';
+    const deadline = Date.now() + (options.timeoutMs ?? 3000);
+
+    return {
+        callbackWaitsForEmptyEventLoop: true,
+        awsRequestId: options.awsRequestId ?? crypto.randomUUID(),
+        functionName,
+        functionVersion: options.functionVersion ?? '$LATEST',
+        invokedFunctionArn: `arn:aws:lambda:us-east-1:123456789012:function:${functionName}`,
+        memoryLimitInMB: options.memoryLimitInMB ?? '128',
+        logGroupName: `/aws/lambda/${functionName}`,
+        logStreamName: `2024/01/01/[$LATEST]${crypto.randomBytes(16).toString('hex')}`,
+        getRemainingTimeInMillis: (): number => Math.max(deadline - Date.now(), 0),
+        done: (): void => {},
+        fail: (): void => {},
+        succeed: (): void => {},
+    };
+};
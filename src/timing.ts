@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { Logger, TimerDone } from './types';
+import { getSpanId, runWithLogger } from './context';
+
+/**
+ * Random 64-bit span ID as 16 hex characters (the W3C trace context format).
+ */
+export const generateSpanId = (): string => {
+    return crypto.randomBytes(8).toString('hex');
+};
+
+export const startTimer = (logger: Logger): TimerDone => {
+    const startedAt = Date.now();
+    return (message: string, context?: Record<string, any>): void => {
+        logger.info(message, { ...context, durationMs: Date.now() - startedAt });
+    };
+};
+
+const isPromiseLike = (value: any): value is PromiseLike<any> => {
+    return value !== null && typeof value === 'object' && typeof value.then === 'function';
+};
+
+/**
+ * Runs fn as a span of the given logger. Works for synchronous and async functions alike:
+ * the span ends when the returned promise settles.
+ */
+export const runSpan = <T>(logger: Logger, name: string, fn: (logger: Logger) => T): T => {
+    const spanId = generateSpanId();
+    const parentSpanId = getSpanId();
+    const spanLogger = logger.child({
+        spanName: name,
+        spanId,
+        ...(parentSpanId ? { parentSpanId } : {}),
+    });
+
+    const startedAt = Date.now();
+    const succeed = () => {
+        spanLogger.info('Span finished', {
+            durationMs: Date.now() - startedAt,
+            outcome: 'success',
+        });
+    };
+    const fail = (error: unknown) => {
+        spanLogger.error('Span failed', error, {
+            durationMs: Date.now() - startedAt,
+            outcome: 'error',
+        });
+    };
+
+    return runWithLogger(
+        spanLogger,
+        () => {
+            spanLogger.debug('Span started');
+            let result: T;
+            try {
+                result = fn(spanLogger);
+            } catch (error) {
+                fail(error);
+                throw error;
+            }
+
+            if (isPromiseLike(result)) {
+                return Promise.resolve(result).then(
+                    (value) => {
+                        succeed();
+                        return value;
+                    },
+                    (error) => {
+                        fail(error);
+                        throw error;
+                    },
+                ) as T;
+            }
+            succeed();
+            return result;
+        },
+        { spanId },
+    );
+};
@@ -0,0 +1,92 @@
+import winston from 'winston';
+
+/**
+ * Trace ID injection: the X-Ray trace header that the Lambda runtime sets per invocation,
+ * and the active OpenTelemetry span. Both are read on every log call, never cached.
+ */
+
+export const XRAY_TRACE_ENV = '_X_AMZN_TRACE_ID';
+
+export interface XRayTraceHeader {
+    root?: string;
+    parent?: string;
+    sampled?: boolean;
+}
+
+/**
+ * The part of '@opentelemetry/api' used by the logger: pass its 'trace' export.
+ * The package is an optional peer dependency and is never imported by this library.
+ */
+export interface OpenTelemetryTraceApi {
+    getActiveSpan():
+        | { spanContext(): { traceId: string; spanId: string; traceFlags?: number } }
+        | undefined;
+}
+
+export interface TracingOptions {
+    /**
+     * Add 'xray_trace_id', 'xray_parent_id' and 'xray_sampled' from _X_AMZN_TRACE_ID
+     * when it is set (default: true)
+     */
+    xray?: boolean;
+    /**
+     * Add the W3C 'trace_id' and 'span_id' of the active span, e.g.
+     * `import { trace } from '@opentelemetry/api'` and pass `trace`
+     */
+    openTelemetry?: OpenTelemetryTraceApi;
+}
+
+// All-zero IDs mark an invalid (non-recording) OpenTelemetry span context
+const INVALID_TRACE_ID = /^0+$/;
+
+/**
+ * Parses an X-Ray trace header: 'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1'.
+ */
+export const parseXRayTraceHeader = (header: string): XRayTraceHeader => {
+    const parsed: XRayTraceHeader = {};
+    for (const part of header.split(';')) {
+        const separator = part.indexOf('=');
+        if (separator === -1) continue;
+
+        const key = part.slice(0, separator).trim();
+        const value = part.slice(separator + 1).trim();
+        if (key === 'Root') parsed.root = value;
+        else if (key === 'Parent') parsed.parent = value;
+        else if (key === 'Sampled') parsed.sampled = value === '1';
+    }
+    return parsed;
+};
+
+/**
+ * Returns the X-Ray trace header of the current invocation, if the runtime set one.
+ */
+export const getXRayTraceHeader = (): XRayTraceHeader | undefined => {
+    const header = process.env[XRAY_TRACE_ENV];
+    return header ? parseXRayTraceHeader(header) : undefined;
+};
+
+/**
+ * Adds the trace fields to each record. Fields already present on the record are kept.
+ */
+export const traceContextFormat = winston.format((info, opts) => {
+    const options: TracingOptions = opts || {};
+    const setField = (key: string, value: unknown) => {
+        if (value !== undefined && info[key] === undefined) info[key] = value;
+    };
+
+    if (options.xray !== false) {
+        const xray = getXRayTraceHeader();
+        if (xray) {
+            setField('xray_trace_id', xray.root);
+            setField('xray_parent_id', xray.parent);
+            setField('xray_sampled', xray.sampled);
+        }
+    }
+
+    const spanContext = options.openTelemetry?.getActiveSpan()?.spanContext();
+    if (spanContext && !INVALID_TRACE_ID.test(spanContext.traceId)) {
+        setField('trace_id', spanContext.traceId);
+        setField('span_id', spanContext.spanId);
+    }
+    return info;
+});
@@ -0,0 +1,29 @@
+import Transport from 'winston-transport';
+
+const MESSAGE = Symbol.for('message');
+
+/**
+ * Transport that keeps log records in memory instead of writing them out.
+ * Useful in tests to assert on what was logged (after redaction and formatting).
+ */
+export class MemoryTransport extends Transport {
+    /**
+     * Structured records, as they reached the transport
+     */
+    public readonly entries: Record<string, any>[] = [];
+    /**
+     * Rendered lines, as the configured format produced them
+     */
+    public readonly lines: string[] = [];
+
+    log(info: any, next: () => void): void {
+        this.entries.push(Object.fromEntries(Object.entries(info)));
+        this.lines.push(info[MESSAGE]);
+        next();
+    }
+
+    clear(): void {
+        this.entries.length = 0;
+        this.lines.length = 0;
+    }
+}
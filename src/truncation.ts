@@ -0,0 +1,179 @@
+import winston from 'winston';
+
+/**
+ * Size limits for log records. They run after redaction, so a secret is always masked
+ * before anything is cut (a truncated value never leaks a secret prefix).
+ */
+export interface SizeLimits {
+    /**
+     * Strings longer than this are cut and end with '…[truncated N chars]' (default: no limit)
+     */
+    maxStringLength?: number;
+    /**
+     * Arrays longer than this keep their first items and end with '…[truncated N items]'
+     * (default: no limit)
+     */
+    maxArrayLength?: number;
+    /**
+     * Objects and arrays nested deeper than this are replaced with a marker (default: no limit)
+     */
+    maxDepth?: number;
+    /**
+     * Maximum size of the rendered line in bytes. Larger records are shrunk until they fit.
+     * Default: 262118 (the CloudWatch Logs 256 KB event limit minus its 26 bytes of overhead)
+     */
+    maxBytes?: number;
+}
+
+export const DEFAULT_MAX_LOG_BYTES = 256 * 1024 - 26;
+
+// Winston stores the level and the rendered line under these symbols
+const LEVEL = Symbol.for('level');
+const MESSAGE = Symbol.for('message');
+
+// Smallest string length tried while shrinking an oversized record
+const MIN_SHRINK_STRING_LENGTH = 64;
+
+// Fields kept when even the shrunk record does not fit
+const ESSENTIAL_FIELDS = ['level', 'message', 'timestamp', 'requestId', 'correlationId'];
+
+// Record fields that are never cut, so records stay searchable
+const UNTRUNCATED_FIELDS = new Set(['level', 'timestamp']);
+
+type ValueLimits = Omit<SizeLimits, 'maxBytes'>;
+
+const truncateString = (value: string, maxLength: number): string => {
+    return `${value.slice(0, maxLength)}…[truncated ${value.length - maxLength} chars]`;
+};
+
+const limitValue = (value: any, limits: ValueLimits, depth: number, ancestors: any[]): any => {
+    if (typeof value === 'string') {
+        return limits.maxStringLength !== undefined && value.length > limits.maxStringLength
+            ? truncateString(value, limits.maxStringLength)
+            : value;
+    }
+    if (value === null || typeof value !== 'object') return value;
+
+    // Dates, Buffers and the like are limited in the shape they are serialized to
+    if (typeof value.toJSON === 'function') {
+        return limitValue(value.toJSON(), limits, depth, ancestors);
+    }
+    if (ancestors.includes(value)) return '[Circular]';
+
+    if (limits.maxDepth !== undefined && depth >= limits.maxDepth) {
+        return Array.isArray(value) ? '…[truncated array]' : '…[truncated object]';
+    }
+
+    const nextAncestors = [...ancestors, value];
+    if (Array.isArray(value)) {
+        const maxLength = limits.maxArrayLength;
+        const kept = maxLength !== undefined ? value.slice(0, maxLength) : value;
+        const limited = kept.map((item) => limitValue(item, limits, depth + 1, nextAncestors));
+        if (kept.length < value.length) {
+            limited.push(`…[truncated ${value.length - kept.length} items]`);
+        }
+        return limited;
+    }
+
+    const limited: Record<string, any> = {};
+    for (const [key, nested] of Object.entries(value)) {
+        limited[key] = limitValue(nested, limits, depth + 1, nextAncestors);
+    }
+    return limited;
+};
+
+/**
+ * Applies the string, array and depth limits to a record. The record itself is depth 0.
+ * Returns a new record; Winston's level symbol is kept.
+ */
+export const limitRecordSize = (
+    info: winston.Logform.TransformableInfo,
+    limits: ValueLimits,
+): winston.Logform.TransformableInfo => {
+    const limited: Record<string | symbol, any> = {};
+    for (const [key, value] of Object.entries(info)) {
+        limited[key] = UNTRUNCATED_FIELDS.has(key) ? value : limitValue(value, limits, 1, [info]);
+    }
+    limited[LEVEL] = (info as any)[LEVEL];
+    return limited as winston.Logform.TransformableInfo;
+};
+
+// EMF documents are kept within CloudWatch's limits by createMetrics; cutting one makes it invalid
+const isEmfDocument = (info: winston.Logform.TransformableInfo): boolean => '_aws' in info;
+
+const hasValueLimits = (limits: SizeLimits): boolean => {
+    return (
+        limits.maxStringLength !== undefined ||
+        limits.maxArrayLength !== undefined ||
+        limits.maxDepth !== undefined
+    );
+};
+
+/**
+ * Applies the string, array and depth limits. Runs after redaction. EMF documents are skipped.
+ */
+export const sizeLimitFormat = winston.format((info, opts) => {
+    const limits: SizeLimits = opts || {};
+    return hasValueLimits(limits) && !isEmfDocument(info) ? limitRecordSize(info, limits) : info;
+});
+
+const renderedBytes = (info: winston.Logform.TransformableInfo): number => {
+    const rendered = (info as any)[MESSAGE];
+    return typeof rendered === 'string' ? Buffer.byteLength(rendered) : 0;
+};
+
+/**
+ * Wraps the output format and enforces 'maxBytes' on the rendered line.
+ * An oversized record is rendered again with ever shorter strings and arrays; if it still
+ * does not fit, only its essential fields are kept. Shrunk records are flagged with
+ * 'truncated: true' and 'originalSizeBytes'. EMF documents are written unchanged.
+ */
+export const createMaxBytesFormat = (
+    outputFormat: winston.Logform.Format,
+    maxBytes: number = DEFAULT_MAX_LOG_BYTES,
+): winston.Logform.Format => {
+    const render = (info: winston.Logform.TransformableInfo) => {
+        return outputFormat.transform(
+            info,
+            outputFormat.options,
+        ) as winston.Logform.TransformableInfo;
+    };
+
+    return winston.format((info) => {
+        const rendered = render(info);
+        if (!rendered || isEmfDocument(info)) return rendered;
+
+        const originalSizeBytes = renderedBytes(rendered);
+        if (originalSizeBytes <= maxBytes) return rendered;
+
+        const flagged: winston.Logform.TransformableInfo = {
+            ...rendered,
+            truncated: true,
+            originalSizeBytes,
+        };
+        let maxStringLength = Math.floor(maxBytes / 2);
+        while (maxStringLength >= MIN_SHRINK_STRING_LENGTH) {
+            const shrunk = render(
+                limitRecordSize(flagged, {
+                    maxStringLength,
+                    maxArrayLength: Math.max(Math.floor(maxStringLength / 64), 1),
+                }),
+            );
+            if (renderedBytes(shrunk) <= maxBytes) return shrunk;
+            maxStringLength = Math.floor(maxStringLength / 4);
+        }
+
+        // Too many fields: keep what is needed to find the record
+        const essential: Record<string | symbol, any> = {};
+        for (const key of ESSENTIAL_FIELDS) {
+            if (flagged[key] !== undefined) essential[key] = flagged[key];
+        }
+        if (typeof essential.message === 'string') {
+            essential.message = limitValue(essential.message, { maxStringLength: 1024 }, 0, []);
+        }
+        essential.truncated = true;
+        essential.originalSizeBytes = originalSizeBytes;
+        essential[LEVEL] = (info as any)[LEVEL];
+        return render(essential as winston.Logform.TransformableInfo);
+    })();
+};
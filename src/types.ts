@@ -1,12 +1,147 @@
-export interface Logger {
-    debug(message: string, context?: Record<string, any>): void;
-    info(message: string, context?: Record<string, any>): void;
-    warn(message: string, context?: Record<string, any>): void;
-    error(message: string, error?: Error | string, context?: Record<string, any>): void;
+/**
+ * Context accepted by a Logger<TContext>: any subset of the declared keys.
+ * With the default TContext (Record<string, any>) every key is accepted.
+ */
+export type LogContext<TContext extends object = Record<string, any>> = Partial<TContext>;
+
+/**
+ * Logger, optionally typed with the shape of its context:
+ * `createLogger<{ userId: string; orderId: string }>()` rejects `{ userID: '...' }` at compile time.
+ */
+export interface Logger<TContext extends object = Record<string, any>> {
+    debug(message: string, context?: LogContext<TContext>): void;
+    info(message: string, context?: LogContext<TContext>): void;
+    warn(message: string, context?: LogContext<TContext>): void;
+    /**
+     * Logs an error. Anything thrown can be passed (Error, AWS SDK exception, object, primitive);
+     * it is serialized under the 'error' key.
+     */
+    error(message: string, error?: unknown, context?: LogContext<TContext>): void;
 
     /**
      * Creates a child logger with bound context.
      * Any logs emitted by the child will include the parent's context plus the new context.
      */
-    child(context: Record<string, any>): Logger;
+    child(context: LogContext<TContext>): Logger<TContext>;
+
+    /**
+     * Changes the level of this logger and of the children that have not set their own.
+     * A level override on the current async context still takes precedence.
+     */
+    setLevel(level: string): void;
+
+    /**
+     * Returns true if a record at the given level would be written in the current context.
+     * Use it to skip building expensive debug payloads.
+     */
+    isLevelEnabled(level: string): boolean;
+
+    /**
+     * Starts a timer. Calling the returned function writes an info record
+     * with 'durationMs' measured from this call.
+     */
+    startTimer(): TimerDone<TContext>;
+
+    /**
+     * Runs fn in a nested context with a child logger bound to the span name, span ID and
+     * parent span ID. Start and end are logged with the duration and outcome; if fn throws
+     * (or its promise rejects) the error is logged and rethrown.
+     */
+    withSpan<T>(name: string, fn: (logger: Logger<TContext>) => T): T;
+}
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+/**
+ * A written audit record. 'hash' covers every other field and the previous record's hash.
+ */
+export interface AuditRecord {
+    logType: 'audit';
+    level: 'info';
+    message: 'Audit';
+    /**
+     * Identifies the chain (one per audit logger instance, e.g. per Lambda execution environment)
+     */
+    chainId: string;
+    /**
+     * 1 for the first record of a chain, then increasing by one
+     */
+    sequence: number;
+    timestamp: string;
+    action: string;
+    actor: string;
+    resource: string;
+    outcome: AuditOutcome;
+    details?: Record<string, any>;
+    requestId?: string;
+    correlationId?: string;
+    previousHash: string;
+    hash: string;
+}
+
+/**
+ * Audit channel: who did what, to which resource, with what result.
+ * Records are never sampled or filtered by level, and are chained by SHA-256 hashes.
+ */
+export interface AuditLogger {
+    audit(
+        action: string,
+        actor: string,
+        resource: string,
+        outcome: AuditOutcome,
+        details?: Record<string, any>,
+    ): AuditRecord;
+}
+
+export type TimerDone<TContext extends object = Record<string, any>> = (
+    message: string,
+    context?: LogContext<TContext>,
+) => void;
+
+/**
+ * CloudWatch metric units accepted in Embedded Metric Format documents.
+ */
+export type MetricUnit =
+    | 'Seconds'
+    | 'Microseconds'
+    | 'Milliseconds'
+    | 'Bytes'
+    | 'Kilobytes'
+    | 'Megabytes'
+    | 'Gigabytes'
+    | 'Terabytes'
+    | 'Bits'
+    | 'Kilobits'
+    | 'Megabits'
+    | 'Gigabits'
+    | 'Terabits'
+    | 'Percent'
+    | 'Count'
+    | 'Bytes/Second'
+    | 'Kilobytes/Second'
+    | 'Megabytes/Second'
+    | 'Gigabytes/Second'
+    | 'Terabytes/Second'
+    | 'Bits/Second'
+    | 'Kilobits/Second'
+    | 'Megabits/Second'
+    | 'Gigabits/Second'
+    | 'Terabits/Second'
+    | 'Count/Second'
+    | 'None';
+
+export interface Metrics {
+    /**
+     * Records a metric value. Values recorded under the same name are emitted as an array.
+     */
+    putMetric(name: string, value: number, unit?: MetricUnit): void;
+    /**
+     * Replaces the custom dimensions. Default dimensions are always kept.
+     */
+    setDimensions(dimensions: Record<string, string>): void;
+    setNamespace(namespace: string): void;
+    /**
+     * Writes the recorded metrics as EMF documents through the logger and clears them.
+     */
+    flush(): void;
 }
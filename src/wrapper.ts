@@ -1,5 +1,13 @@
+import type { Writable } from 'stream';
 import { CreateLoggerOptions, createLogger } from './logger';
-import { runWithLogger } from './context';
+import { getLogger, runWithLogger } from './context';
+import { Logger } from './types';
+import { resolveCorrelationId } from './correlation';
+import { EventExtractor, extractEventContext } from './event-sources';
+import { CreateMetricsOptions, createMetrics } from './metrics';
+import { RequestLogLevelOptions, resolveRequestLogLevel } from './log-level';
+import { InvocationMonitorOptions, startInvocationMonitor } from './invocation';
+import { createLogBuffer } from './log-buffer';
 
 // Generic Handler type compatible with AWS Lambda
 // We use 'any' to avoid strict dependency on @types/aws-lambda for this generic wrapper
@@ -7,79 +15,256 @@ import { runWithLogger } from './context';
 type Handler<TEvent = any, TResult = any> = (
     event: TEvent,
     context: any,
-    callback?: any,
+    callback?: HandlerCallback<TResult>,
 ) => Promise<TResult> | void;
 
+type HandlerCallback<TResult = any> = (error?: any, result?: TResult) => void;
+
+// Response streaming handler, as passed to awslambda.streamifyResponse()
+type StreamingHandler<TEvent = any> = (
+    event: TEvent,
+    responseStream: Writable,
+    context: any,
+) => Promise<void>;
+
+// Cold start and invocation count are per execution environment (i.e. per process)
+let coldStart = true;
+let invocationCount = 0;
+
+// Wrappers sharing the same options object share the same root logger (Winston instance + redactor)
+const rootLoggerCache = new WeakMap<WithLoggerOptions, Logger>();
+
+export interface WithLoggerOptions
+    extends CreateLoggerOptions, RequestLogLevelOptions, InvocationMonitorOptions {
+    /**
+     * Detect the event source and bind its fields (method, path, message IDs...) to the logger.
+     * Default: true
+     */
+    extractEventContext?: boolean;
+    /**
+     * Extra extractors checked before the registered and built-in ones
+     */
+    eventExtractors?: EventExtractor[];
+    /**
+     * Options for the per-invocation EMF metrics collector (see getMetrics).
+     * 'functionName' and 'coldStart' are added as default dimensions.
+     */
+    metrics?: CreateMetricsOptions;
+}
+
 /**
- * Higher-order function to wrap a Lambda handler with logger context.
- * Automatically extracts 'awsRequestId' and 'functionName' from the Lambda context
- * and initializes a logger for the request scope.
- *
- * @param handler The original Lambda handler
- * @param options Logger options (level, redaction, etc.)
+ * Runs the handler and settles with its outcome, whichever style it uses:
+ * a returned promise, or the legacy callback(error, result).
+ * A handler that declares no callback parameter and returns nothing resolves immediately.
  */
-export const withLogger = <TEvent = any, TResult = any>(
+const invokeHandler = <TEvent, TResult>(
     handler: Handler<TEvent, TResult>,
-    options: CreateLoggerOptions = {},
-): Handler<TEvent, TResult> => {
-    return async (event: TEvent, context: any, callback?: any) => {
-        // 1. Initialize Logger
-        // Create a root logger if custom options are provided, or use default behavior.
-        // We create a FRESH logger instance for each request to ensure context isolation if needed?
-        // Actually, creating a logger instance is cheap?
-        // Winston createLogger is relatively heavy.
-        // Optimization: We could reuse a global logger and just child() it.
-        // But options might change? Usually options are static.
-        // Let's assume options are static per lambda wrapper usage.
-
-        // HOWEVER, to support dynamic options per request might be overkill.
-        // Let's create one global logger instance for this wrapper instantiation if possible?
-        // But wait, the standard `createLogger` we implemented creates a NEW winston instance every time.
-        // We should probably cache it?
-        // For now, let's keep it simple: createLogger per request.
-        // If performance becomes an issue, we can refactor `createLogger` to reuse the winston instance if options match.
-
-        const rootLogger = createLogger(options);
+    event: TEvent,
+    context: any,
+): Promise<TResult> => {
+    return new Promise<TResult>((resolve, reject) => {
+        // Called inside the invocation's async context, so the wrapper logs the failure
+        const callback: HandlerCallback<TResult> = (error, result) => {
+            if (error !== undefined && error !== null) reject(error);
+            else resolve(result as TResult);
+        };
+
+        const returned: any = handler(event, context, callback);
+        if (returned && typeof returned.then === 'function') {
+            returned.then(resolve, reject);
+        } else if (returned !== undefined || handler.length < 3) {
+            resolve(returned);
+        }
+    });
+};
+
+/**
+ * Builds the per-invocation scope shared by withLogger and withStreamingLogger:
+ * child logger, metrics, per-request level, log buffer, timeout monitor and error logging.
+ * The root logger is built lazily once and reused across invocations.
+ */
+const createInvocationRunner = (options: WithLoggerOptions) => {
+    // Built lazily on the first invocation and reused by every invocation after that
+    let cachedRootLogger: Logger | undefined;
+    const getRootLogger = (): Logger => {
+        if (!cachedRootLogger) {
+            cachedRootLogger = rootLoggerCache.get(options) ?? createLogger(options);
+            rootLoggerCache.set(options, cachedRootLogger);
+        }
+        return cachedRootLogger;
+    };
+
+    return async <TResult>(
+        event: any,
+        context: any,
+        invoke: () => Promise<TResult>,
+    ): Promise<TResult> => {
+        // 1. Resolve the cached root logger; only a cheap child() scope is created per invocation
+        const rootLogger = getRootLogger();
+        const isColdStart = coldStart;
+        coldStart = false;
+        invocationCount += 1;
 
         // 2. Extract Context
-        const requestContext: Record<string, any> = {};
+        const requestContext: Record<string, any> = {
+            coldStart: isColdStart,
+            invocationCount,
+        };
         if (context) {
             if (context.awsRequestId) requestContext.requestId = context.awsRequestId;
             if (context.functionName) requestContext.functionName = context.functionName;
         }
+        if (options.extractEventContext !== false) {
+            Object.assign(requestContext, extractEventContext(event, options.eventExtractors));
+        }
+        const correlationId = resolveCorrelationId(event);
+        requestContext.correlationId = correlationId;
 
         // 3. Create Child Logger with Request Context
         const scopedLogger = rootLogger.child(requestContext);
 
-        // 3a. Log Event and Context
-        scopedLogger.debug('Lambda Event', { event });
-        scopedLogger.debug('Lambda Context', { context });
+        // 3a. Per-invocation metrics collector, flushed when the handler completes
+        const defaultDimensions: Record<string, string> = { coldStart: String(isColdStart) };
+        if (requestContext.functionName) {
+            defaultDimensions.functionName = requestContext.functionName;
+        }
+        const metrics = createMetrics(scopedLogger, {
+            ...options.metrics,
+            defaultDimensions: { ...defaultDimensions, ...options.metrics?.defaultDimensions },
+        });
+
+        // 3b. Raise verbosity for this request only (x-debug header, debug flag or sampling)
+        const level = resolveRequestLogLevel(event, options);
+
+        // 3c. Debug records below the level are buffered and only written if the invocation fails
+        const logBuffer = options.logBuffer
+            ? createLogBuffer(options.logBuffer, (droppedCount) =>
+                  scopedLogger.warn('Buffered debug records dropped', { droppedCount }),
+              )
+            : undefined;
 
         // 4. Run Handler in Context
         return runWithLogger(
             scopedLogger,
             async () => {
-                // We use 'await' to ensure the context stays active during the handler execution
-                // If the handler accepts a callback, we might need special handling?
-                // Most modern lambdas use async/await.
-                // If legacy callback style is used, AsyncLocalStorage context *should* still propagate
-                // if the callback is invoked asynchronously.
-                // But we wrap the result in Promise usually.
-
-                // Supporting both async and callback style:
+                // Log Event and Context (inside the scope so a per-request level applies)
+                scopedLogger.debug('Lambda Event', { event });
+                scopedLogger.debug('Lambda Context', { context });
+
+                // Timeout early-warning and the final summary line, written on every exit path
+                const monitor = startInvocationMonitor(
+                    scopedLogger,
+                    context,
+                    isColdStart,
+                    options,
+                    () => {
+                        logBuffer?.flush();
+                        metrics.flush();
+                    },
+                );
+
+                // Promise and callback style handlers both settle the same way (see invokeHandler)
                 try {
-                    // If it returns a promise, await it
-                    const result = await handler(event, context, callback);
+                    const result = await invoke();
+                    monitor.finish('success', result);
+                    logBuffer?.clear();
                     return result as TResult;
                 } catch (error) {
-                    // We could log unhandled errors here too?
                     // Standard lambda practice is to let the error propagate so Lambda runtime sees it (and retries etc)
                     // BUT we should log it first because once it leaves here, we might lose the logger context behavior.
+                    logBuffer?.flush();
                     scopedLogger.error('Unhandled Lambda Exception', error as Error);
+                    monitor.finish('error');
                     throw error;
+                } finally {
+                    // Metrics recorded during the invocation are written even if the handler failed
+                    metrics.flush();
                 }
             },
-            requestContext.requestId
+            { requestId: requestContext.requestId, correlationId, metrics, level, logBuffer },
         );
     };
 };
+
+/**
+ * Higher-order function to wrap a Lambda handler with logger context.
+ * Automatically extracts 'awsRequestId' and 'functionName' from the Lambda context,
+ * binds event source fields detected from the event shape and the incoming (or generated)
+ * correlation ID,
+ * and initializes a logger for the request scope.
+ * The root logger is built once per wrapper (or per shared options object) and reused across
+ * invocations; each invocation is bound with 'coldStart' and 'invocationCount'.
+ * Legacy callback-style handlers ((event, context, callback)) are supported: errors passed to
+ * the callback are logged like thrown ones, and the result is returned to the runtime.
+ *
+ * @param handler The original Lambda handler
+ * @param options Logger options (level, redaction, event extraction, etc.)
+ */
+export const withLogger = <TEvent = any, TResult = any>(
+    handler: Handler<TEvent, TResult>,
+    options: WithLoggerOptions = {},
+): Handler<TEvent, TResult> => {
+    const runInvocation = createInvocationRunner(options);
+
+    return (event: TEvent, context: any) =>
+        runInvocation(event, context, () => invokeHandler(handler, event, context));
+};
+
+const chunkByteLength = (chunk: any, encoding?: any): number => {
+    if (typeof chunk === 'string') {
+        return Buffer.byteLength(
+            chunk,
+            typeof encoding === 'string' ? (encoding as BufferEncoding) : undefined,
+        );
+    }
+    return chunk?.byteLength ?? 0;
+};
+
+/**
+ * Counts the bytes written to a stream, including writes made by pipeline() / pipe().
+ */
+const countWrittenBytes = (stream: Writable): { readonly bytes: number } => {
+    const counter = { bytes: 0 };
+    const write = stream.write;
+    const end = stream.end;
+
+    stream.write = function (this: Writable, chunk: any, ...args: any[]) {
+        counter.bytes += chunkByteLength(chunk, args[0]);
+        return (write as any).call(this, chunk, ...args);
+    };
+    stream.end = function (this: Writable, chunk?: any, ...args: any[]) {
+        if (chunk !== undefined && typeof chunk !== 'function') {
+            counter.bytes += chunkByteLength(chunk, args[0]);
+        }
+        return (end as any).call(this, chunk, ...args);
+    };
+    return counter;
+};
+
+/**
+ * withLogger for Lambda response streaming handlers:
+ * `awslambda.streamifyResponse(withStreamingLogger(async (event, responseStream, context) => ...))`.
+ * Logs the number of bytes streamed when the handler completes, and stream errors.
+ *
+ * @param handler The original streaming handler
+ * @param options Logger options (level, redaction, event extraction, etc.)
+ */
+export const withStreamingLogger = <TEvent = any>(
+    handler: StreamingHandler<TEvent>,
+    options: WithLoggerOptions = {},
+): StreamingHandler<TEvent> => {
+    const runInvocation = createInvocationRunner(options);
+
+    return (event: TEvent, responseStream: Writable, context: any) =>
+        runInvocation(event, context, async () => {
+            // runInvocation guarantees we are inside the invocation context here
+            const logger = getLogger()!;
+            const written = countWrittenBytes(responseStream);
+            responseStream.once('error', (error) => {
+                logger.error('Response stream error', error, { bytesWritten: written.bytes });
+            });
+
+            await handler(event, responseStream, context);
+            logger.info('Response stream finished', { bytesWritten: written.bytes });
+        });
+};
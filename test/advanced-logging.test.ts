@@ -0,0 +1,52 @@
+import { createLogger, MemoryTransport, runWithLogger, getLambdaLogLevel } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Lambda Advanced Logging Controls Test ---');
+
+    process.env.AWS_LAMBDA_LOG_FORMAT = 'JSON';
+    process.env.AWS_LAMBDA_LOG_LEVEL = 'WARN';
+    process.env.LOG_LEVEL = 'debug';
+
+    try {
+        assert.strictEqual(getLambdaLogLevel(), 'warn');
+
+        const memory = new MemoryTransport();
+        const logger = createLogger({ transports: [memory] });
+
+        // AWS_LAMBDA_LOG_LEVEL wins over LOG_LEVEL
+        logger.info('Filtered out');
+        assert.strictEqual(memory.entries.length, 0);
+
+        // requestId is lifted from the async context when not bound on the logger
+        runWithLogger(logger, () => logger.warn('Inside context'), 'req-alc-1');
+        const record = JSON.parse(memory.lines[0]);
+        assert.strictEqual(record.level, 'WARN');
+        assert.strictEqual(record.message, 'Inside context');
+        assert.strictEqual(record.requestId, 'req-alc-1');
+        assert.ok(!isNaN(Date.parse(record.timestamp)), 'timestamp should be ISO 8601');
+        console.log(memory.lines[0]);
+
+        // An explicit level still wins
+        const verbose = new MemoryTransport();
+        createLogger({ level: 'debug', transports: [verbose] }).debug('Kept');
+        assert.strictEqual(JSON.parse(verbose.lines[0]).level, 'DEBUG');
+
+        // Text format keeps the existing lowercase shape
+        process.env.AWS_LAMBDA_LOG_FORMAT = 'Text';
+        const text = new MemoryTransport();
+        createLogger({ format: 'json', transports: [text] }).error('Plain');
+        assert.strictEqual(JSON.parse(text.lines[0]).level, 'error');
+    } finally {
+        delete process.env.AWS_LAMBDA_LOG_FORMAT;
+        delete process.env.AWS_LAMBDA_LOG_LEVEL;
+        delete process.env.LOG_LEVEL;
+    }
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
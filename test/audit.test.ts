@@ -0,0 +1,149 @@
+import {
+    createAuditLogger,
+    createLogger,
+    runWithLogger,
+    verifyAuditChain,
+    AUDIT_GENESIS_HASH,
+    MemoryTransport,
+    sha256Hex,
+    stableStringify,
+} from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Audit Log Test ---');
+
+    const memory = new MemoryTransport();
+    const auditLogger = createAuditLogger({
+        transports: [memory],
+        redaction: { keys: ['password'] },
+        chainId: 'chain-1',
+    });
+
+    console.log('\n--> records are chained and never filtered');
+    // The operational logger is at 'error' and sampled out entirely: audit is unaffected
+    const quietLogger = createLogger({
+        level: 'error',
+        transports: [new MemoryTransport()],
+        sampling: { rates: { info: 0 } },
+    });
+    runWithLogger(
+        quietLogger,
+        () => {
+            auditLogger.audit('user.login', 'alice', 'session', 'success', { ip: '10.0.0.1' });
+            auditLogger.audit('user.update', 'alice', 'user/42', 'denied', {
+                password: 'hunter2',
+            });
+        },
+        { requestId: 'req-audit-1', correlationId: 'corr-audit-1' },
+    );
+    const third = auditLogger.audit('order.refund', 'bob', 'order/7', 'failure');
+
+    assert.strictEqual(memory.lines.length, 3);
+    const records = memory.lines.map((line) => JSON.parse(line));
+    assert.deepStrictEqual(
+        records.map((r) => [r.logType, r.sequence, r.action, r.outcome]),
+        [
+            ['audit', 1, 'user.login', 'success'],
+            ['audit', 2, 'user.update', 'denied'],
+            ['audit', 3, 'order.refund', 'failure'],
+        ],
+    );
+    assert.strictEqual(records[0].previousHash, AUDIT_GENESIS_HASH);
+    assert.strictEqual(records[1].previousHash, records[0].hash);
+    assert.strictEqual(records[0].requestId, 'req-audit-1');
+    assert.strictEqual(records[0].correlationId, 'corr-audit-1');
+    assert.strictEqual(records[1].details.password, '*****', 'redacted before hashing');
+    assert.strictEqual(records[2].hash, third.hash);
+    assert.ok(/^[a-f0-9]{64}$/.test(third.hash));
+
+    console.log('\n--> verifier accepts the export, mixed with other logs');
+    const exported = [
+        '{"level":"info","message":"Unrelated"}',
+        ...memory.lines,
+        'START RequestId: 123',
+    ];
+    assert.deepStrictEqual(verifyAuditChain(exported, { requireGenesis: true }), {
+        valid: true,
+        verified: 3,
+        errors: [],
+    });
+    assert.strictEqual(verifyAuditChain(memory.lines.slice(1)).valid, true, 'partial export');
+    assert.strictEqual(
+        verifyAuditChain(memory.lines.slice(1), { requireGenesis: true }).errors[0].reason,
+        'sequence-gap',
+    );
+
+    console.log('\n--> tampering and gaps are reported');
+    const tampered = [...memory.lines];
+    tampered[1] = tampered[1].replace('"denied"', '"success"');
+    const tamperResult = verifyAuditChain(tampered);
+    assert.strictEqual(tamperResult.valid, false);
+    assert.deepStrictEqual(tamperResult.errors, [
+        { index: 1, chainId: 'chain-1', sequence: 2, reason: 'tampered' },
+    ]);
+
+    const withGap = verifyAuditChain([memory.lines[0], memory.lines[2]]);
+    assert.deepStrictEqual(
+        withGap.errors.map((e) => e.reason),
+        ['sequence-gap'],
+    );
+
+    // A record rebuilt with a valid hash but a forged link still breaks the chain
+    const forged = { ...records[2], previousHash: 'f'.repeat(64) };
+    const { hash: _hash, ...forgedUnhashed } = forged;
+    forged.hash = sha256Hex(stableStringify(forgedUnhashed));
+    assert.deepStrictEqual(
+        verifyAuditChain([memory.lines[0], memory.lines[1], JSON.stringify(forged)]).errors.map(
+            (e) => e.reason,
+        ),
+        ['chain-broken'],
+    );
+
+    const truncatedLine = memory.lines[0].slice(0, -10);
+    assert.strictEqual(verifyAuditChain([truncatedLine]).errors[0].reason, 'unparsable');
+
+    console.log('\n--> values that change shape in JSON still verify');
+    const normalized = new MemoryTransport();
+    const normalizedAudit = createAuditLogger({ transports: [normalized] });
+    const withDate = normalizedAudit.audit('report.export', 'dave', 'report/1', 'success', {
+        at: new Date('2024-05-01T10:00:00.000Z'),
+    });
+    normalizedAudit.audit('report.export', 'dave', 'report/2', 'success', {
+        list: [undefined, 1],
+    });
+    assert.strictEqual(withDate.details?.at, '2024-05-01T10:00:00.000Z');
+    assert.deepStrictEqual(JSON.parse(normalized.lines[1]).details.list, [null, 1]);
+    const circular: Record<string, any> = { id: 'c-1' };
+    circular.self = circular;
+    const shared = { tag: 'x' };
+    normalizedAudit.audit('payment.capture', 'erin', 'payment/9', 'success', {
+        amount: 10n,
+        circular,
+        siblings: [shared, shared],
+    });
+    const odd = JSON.parse(normalized.lines[2]).details;
+    assert.strictEqual(odd.amount, '10');
+    assert.deepStrictEqual(odd.circular, { id: 'c-1', self: '[Circular]' });
+    assert.deepStrictEqual(odd.siblings, [{ tag: 'x' }, { tag: 'x' }]);
+    assert.strictEqual(JSON.parse(normalized.lines[2]).sequence, 3);
+    assert.deepStrictEqual(verifyAuditChain(normalized.lines, { requireGenesis: true }), {
+        valid: true,
+        verified: 3,
+        errors: [],
+    });
+
+    console.log('\n--> chains are verified independently');
+    const other = new MemoryTransport();
+    const otherAudit = createAuditLogger({ transports: [other], chainId: 'chain-2' });
+    otherAudit.audit('user.logout', 'carol', 'session', 'success');
+    const interleaved = [memory.lines[0], other.lines[0], memory.lines[1], memory.lines[2]];
+    assert.strictEqual(verifyAuditChain(interleaved, { requireGenesis: true }).valid, true);
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,63 @@
+import { withBatchLogger, getLogger, getCorrelationId } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Batch Handler Test ---');
+
+    const seen: string[] = [];
+    const handler = withBatchLogger(async (record: any, index) => {
+        const logger = getLogger();
+        if (!logger) throw new Error('Context lost!');
+        logger.info('Processing record', { index });
+        seen.push(`${record.messageId}:${getCorrelationId()}`);
+        if (record.body === 'fail') throw new Error(`Record ${record.messageId} failed`);
+    });
+
+    const event = {
+        Records: [
+            {
+                eventSource: 'aws:sqs',
+                messageId: 'm-1',
+                body: 'ok',
+                messageAttributes: { 'x-correlation-id': { stringValue: 'corr-1' } },
+            },
+            { eventSource: 'aws:sqs', messageId: 'm-2', body: 'fail', messageAttributes: {} },
+            { eventSource: 'aws:sqs', messageId: 'm-3', body: 'ok', messageAttributes: {} },
+        ],
+    };
+    const mockContext = { awsRequestId: 'req-batch-1', functionName: 'batch-fn' };
+
+    console.log('\n--> invoking batch handler');
+    const result = await handler(event, mockContext);
+    assert.deepStrictEqual(result, { batchItemFailures: [{ itemIdentifier: 'm-2' }] });
+    assert.strictEqual(seen.length, 3);
+    assert.strictEqual(seen[0], 'm-1:corr-1');
+
+    console.log('\n--> invoking batch handler that stops on first failure (Kinesis)');
+    const processed: number[] = [];
+    const ordered = withBatchLogger(
+        async (record: any, index) => {
+            processed.push(index);
+            if (index === 1) throw new Error('Out of order');
+        },
+        { stopOnFirstFailure: true },
+    );
+    const kinesisEvent = {
+        Records: ['1', '2', '3'].map((sequenceNumber) => ({
+            eventSource: 'aws:kinesis',
+            kinesis: { sequenceNumber },
+        })),
+    };
+    const orderedResult = await ordered(kinesisEvent, mockContext);
+    assert.deepStrictEqual(processed, [0, 1]);
+    assert.deepStrictEqual(orderedResult, {
+        batchItemFailures: [{ itemIdentifier: '2' }, { itemIdentifier: '3' }],
+    });
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
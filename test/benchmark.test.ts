@@ -0,0 +1,73 @@
+import winston from 'winston';
+import { createLogger, withLogger, getLogger } from '../src/index';
+import assert from 'assert';
+
+const ITERATIONS = 500;
+
+const mockContext = { awsRequestId: 'req-bench', functionName: 'bench-fn' };
+
+const measure = async (label: string, fn: () => Promise<void> | void): Promise<number> => {
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < ITERATIONS; i++) {
+        await fn();
+    }
+    const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+    console.log(
+        `${label}: ${elapsedMs.toFixed(1)}ms (${(elapsedMs / ITERATIONS).toFixed(3)}ms/op)`,
+    );
+    return elapsedMs;
+};
+
+const run = async () => {
+    console.log('--- Root Logger Caching Benchmark ---');
+
+    // Level 'error' keeps the output quiet so we measure setup cost, not Console I/O
+    const options = { level: 'error', redaction: { keys: ['password'] } };
+
+    // Previous behaviour: a fresh Winston instance and redactor per invocation
+    const uncached = await measure('createLogger per invocation', () => {
+        createLogger(options).child({ requestId: mockContext.awsRequestId });
+    });
+
+    // Current behaviour: the root is built once, each invocation only creates a child scope
+    const root = createLogger(options);
+    const cached = await measure('cached root + child() per invocation', () => {
+        root.child({ requestId: mockContext.awsRequestId });
+    });
+
+    // End to end: the wrapper must reuse its root logger across invocations
+    const createWinstonLogger = winston.createLogger;
+    let winstonLoggersCreated = 0;
+    winston.createLogger = (...args) => {
+        winstonLoggersCreated++;
+        return createWinstonLogger(...args);
+    };
+    try {
+        const handler = withLogger(async () => {
+            getLogger()?.debug('noop');
+        }, options);
+        await measure('withLogger invocation', async () => {
+            await handler({}, mockContext);
+        });
+    } finally {
+        winston.createLogger = createWinstonLogger;
+    }
+
+    assert.ok(
+        cached < uncached,
+        `cached wrapper (${cached.toFixed(1)}ms) should be faster than per-invocation createLogger (${uncached.toFixed(1)}ms)`,
+    );
+
+    assert.strictEqual(
+        winstonLoggersCreated,
+        1,
+        `withLogger should build one root logger for ${ITERATIONS} invocations`,
+    );
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
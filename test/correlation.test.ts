@@ -0,0 +1,92 @@
+import {
+    extractCorrelationId,
+    getCorrelationHeaders,
+    getCorrelationId,
+    getCorrelationMessageAttributes,
+    getRequestId,
+    withLogger,
+} from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Correlation ID Test ---');
+
+    // API Gateway headers (case-insensitive, x-correlation-id wins over x-request-id)
+    assert.strictEqual(
+        extractCorrelationId({
+            headers: { 'X-Request-Id': 'req-1', 'X-Correlation-Id': 'corr-1' },
+        }),
+        'corr-1',
+    );
+    assert.strictEqual(extractCorrelationId({ headers: { 'x-request-id': 'req-1' } }), 'req-1');
+
+    // traceparent falls back to the trace ID
+    assert.strictEqual(
+        extractCorrelationId({
+            headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+        }),
+        '4bf92f3577b34da6a3ce929d0e0e4736',
+    );
+
+    // SQS and SNS message attributes
+    assert.strictEqual(
+        extractCorrelationId({
+            Records: [
+                { messageAttributes: {} },
+                {
+                    messageAttributes: {
+                        'x-correlation-id': { stringValue: 'corr-sqs', dataType: 'String' },
+                    },
+                },
+            ],
+        }),
+        'corr-sqs',
+    );
+    assert.strictEqual(
+        extractCorrelationId({
+            Records: [
+                {
+                    Sns: {
+                        MessageAttributes: {
+                            'x-correlation-id': { Type: 'String', Value: 'corr-sns' },
+                        },
+                    },
+                },
+            ],
+        }),
+        'corr-sns',
+    );
+    assert.strictEqual(extractCorrelationId({ foo: 'bar' }), undefined);
+
+    // Outside of a context there is nothing to propagate
+    assert.deepStrictEqual(getCorrelationHeaders(), {});
+
+    console.log('\n--> invoking wrapped handler with an incoming correlation ID');
+    const handler = withLogger(async () => {
+        assert.strictEqual(getRequestId(), 'req-corr-1');
+        assert.strictEqual(getCorrelationId(), 'corr-upstream');
+        assert.deepStrictEqual(getCorrelationHeaders(), { 'x-correlation-id': 'corr-upstream' });
+        assert.deepStrictEqual(getCorrelationMessageAttributes(), {
+            'x-correlation-id': { DataType: 'String', StringValue: 'corr-upstream' },
+        });
+    });
+    await handler(
+        { headers: { 'x-correlation-id': 'corr-upstream' } },
+        { awsRequestId: 'req-corr-1', functionName: 'corr-fn' },
+    );
+
+    console.log('\n--> invoking wrapped handler without a correlation ID');
+    const generating = withLogger(async () => {
+        const correlationId = getCorrelationId();
+        assert.ok(correlationId, 'a correlation ID should be generated');
+        assert.notStrictEqual(correlationId, getRequestId());
+    });
+    await generating({}, { awsRequestId: 'req-corr-2', functionName: 'corr-fn' });
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,72 @@
+import { recursiveRedact, COMMON_REDACTION_KEYS, RedactionConfig } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Encoded Field Redaction Test ---');
+
+    const config: RedactionConfig = {
+        keys: COMMON_REDACTION_KEYS,
+        encodedFields: {
+            paths: ['event.body', 'event.Records.*.body'],
+            base64: true,
+            formUrlEncoded: true,
+            maxLength: 1024,
+        },
+    };
+
+    const apiEvent = {
+        event: {
+            body: JSON.stringify({
+                username: 'alice',
+                password: 'hunter2',
+                profile: { pin: '1234' },
+            }),
+            Records: [
+                { body: JSON.stringify({ orderId: 'o-1', card: '4111111111111111' }) },
+                { body: 'plain text message, not JSON' },
+            ],
+            // Not an opted-in path: stays untouched
+            rawBody: JSON.stringify({ password: 'kept-as-is' }),
+        },
+    };
+    const redacted = recursiveRedact(apiEvent, config);
+    console.log('Redacted:', JSON.stringify(redacted, null, 2));
+
+    assert.deepStrictEqual(JSON.parse(redacted.event.body), {
+        username: 'alice',
+        password: '*****',
+        profile: { pin: '*****' },
+    });
+    assert.deepStrictEqual(JSON.parse(redacted.event.Records[0].body), {
+        orderId: 'o-1',
+        card: '*****',
+    });
+    assert.strictEqual(redacted.event.Records[1].body, 'plain text message, not JSON');
+    assert.strictEqual(redacted.event.rawBody, apiEvent.event.rawBody);
+
+    // Base64 encoded JSON (API Gateway isBase64Encoded)
+    const base64Body = Buffer.from(JSON.stringify({ token: 'abc', page: 2 })).toString('base64');
+    const base64 = recursiveRedact({ event: { body: base64Body } }, config);
+    assert.deepStrictEqual(JSON.parse(Buffer.from(base64.event.body, 'base64').toString()), {
+        token: '*****',
+        page: 2,
+    });
+
+    // Form bodies
+    const form = recursiveRedact(
+        { event: { body: 'username=alice&password=hunter2&tags=a&tags=b' } },
+        config,
+    );
+    assert.strictEqual(form.event.body, 'username=alice&password=*****&tags=a&tags=b');
+
+    // Size cap
+    const large = JSON.stringify({ password: 'x'.repeat(2000) });
+    assert.strictEqual(recursiveRedact({ event: { body: large } }, config).event.body, large);
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
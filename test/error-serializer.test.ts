@@ -0,0 +1,109 @@
+import { serializeError, createLogger, MemoryTransport } from '../src/index';
+import assert from 'assert';
+
+// Shape of an AWS SDK v3 ServiceException, without depending on the SDK
+class ConditionalCheckFailedException extends Error {
+    $fault = 'client';
+    $metadata = {
+        httpStatusCode: 400,
+        requestId: 'aws-req-1',
+        attempts: 2,
+        totalRetryDelay: 120,
+    };
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConditionalCheckFailedException';
+    }
+}
+
+const run = async () => {
+    console.log('--- Error Serializer Test ---');
+
+    // Cause chains
+    const root = new Error('socket hang up');
+    (root as any).code = 'ECONNRESET';
+    const wrapped = new Error('Failed to fetch user', { cause: root });
+    const serialized = serializeError(wrapped);
+    assert.strictEqual(serialized.kind, 'error');
+    assert.strictEqual(serialized.cause?.message, 'socket hang up');
+    assert.strictEqual(serialized.cause?.code, 'ECONNRESET');
+
+    // AggregateError
+    const aggregate = serializeError(new AggregateError([new Error('a'), 'b'], 'Many failed'));
+    assert.strictEqual(aggregate.kind, 'aggregate');
+    assert.deepStrictEqual(
+        aggregate.errors?.map((e) => [e.kind, e.message]),
+        [
+            ['error', 'a'],
+            ['non-error', 'b'],
+        ],
+    );
+
+    // AWS SDK v3 exceptions
+    const aws = serializeError(
+        new ConditionalCheckFailedException('The conditional request failed'),
+    );
+    assert.strictEqual(aws.kind, 'aws-service');
+    assert.strictEqual(aws.code, 'ConditionalCheckFailedException');
+    assert.deepStrictEqual(aws.aws, {
+        fault: 'client',
+        httpStatusCode: 400,
+        requestId: 'aws-req-1',
+        extendedRequestId: undefined,
+        cfId: undefined,
+        attempts: 2,
+        totalRetryDelay: 120,
+    });
+    assert.ok(!('$metadata' in aws));
+
+    // Non-Error throwables
+    assert.deepStrictEqual(serializeError(42), {
+        kind: 'non-error',
+        name: 'NonError',
+        message: '42',
+        value: 42,
+    });
+    const thrownObject = serializeError({ code: 'E_LIMIT', message: 'Too many', retryAfter: 3 });
+    assert.strictEqual(thrownObject.kind, 'non-error');
+    assert.strictEqual(thrownObject.code, 'E_LIMIT');
+    assert.strictEqual(thrownObject.retryAfter, 3);
+
+    // Cycles and depth limit
+    const a: any = new Error('a');
+    const b: any = new Error('b', { cause: a });
+    a.cause = b;
+    assert.strictEqual(serializeError(a).cause?.cause?.message, '[Circular]');
+
+    let deep: any = new Error('level-0');
+    for (let i = 1; i <= 10; i++) deep = new Error(`level-${i}`, { cause: deep });
+    let node = serializeError(deep, { maxDepth: 2 });
+    let depth = 0;
+    while (node.cause) {
+        node = node.cause;
+        depth++;
+    }
+    assert.strictEqual(depth, 3);
+    assert.strictEqual(node.kind, 'truncated');
+
+    // Stack trimming
+    const trimmed = serializeError(new Error('trim me'), { maxStackFrames: 1 });
+    assert.strictEqual(trimmed.stack?.split('\n').length, 3);
+    assert.ok(trimmed.stack?.endsWith('more frames'));
+    assert.strictEqual(serializeError(new Error('x'), { includeStack: false }).stack, undefined);
+
+    // Through the logger
+    const memory = new MemoryTransport();
+    const context = { orderId: 'o-1' };
+    createLogger({ transports: [memory] }).error('Save failed', wrapped, context);
+    assert.strictEqual(memory.entries[0].error.cause.code, 'ECONNRESET');
+    assert.strictEqual(memory.entries[0].orderId, 'o-1');
+    assert.ok(!('error' in context), 'caller context must not be mutated');
+    console.log(memory.lines[0]);
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,135 @@
+import { extractEventContext, registerEventExtractor, withLogger, getLogger } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Event Source Extraction Test ---');
+
+    const apiV1 = extractEventContext({
+        httpMethod: 'POST',
+        path: '/users',
+        resource: '/users',
+        requestContext: { requestId: 'api-req-1', identity: { sourceIp: '10.0.0.1' } },
+    });
+    assert.deepStrictEqual(apiV1, {
+        eventType: 'apiGatewayV1',
+        method: 'POST',
+        path: '/users',
+        routeKey: '/users',
+        sourceIp: '10.0.0.1',
+        apiRequestId: 'api-req-1',
+    });
+
+    const apiV2 = extractEventContext({
+        version: '2.0',
+        routeKey: 'GET /items/{id}',
+        rawPath: '/items/1',
+        requestContext: {
+            requestId: 'api-req-2',
+            http: { method: 'GET', path: '/items/1', sourceIp: '10.0.0.2' },
+        },
+    });
+    assert.strictEqual(apiV2.eventType, 'apiGatewayV2');
+    assert.strictEqual(apiV2.routeKey, 'GET /items/{id}');
+    assert.strictEqual(apiV2.apiRequestId, 'api-req-2');
+
+    const sqs = extractEventContext({
+        Records: [
+            { eventSource: 'aws:sqs', messageId: 'm-1', eventSourceARN: 'arn:aws:sqs:q' },
+            { eventSource: 'aws:sqs', messageId: 'm-2', eventSourceARN: 'arn:aws:sqs:q' },
+        ],
+    });
+    assert.deepStrictEqual(sqs, {
+        eventType: 'sqs',
+        messageIds: ['m-1', 'm-2'],
+        queueArns: ['arn:aws:sqs:q'],
+        recordCount: 2,
+    });
+
+    const sns = extractEventContext({
+        Records: [{ EventSource: 'aws:sns', Sns: { MessageId: 'sns-1', TopicArn: 'arn:t' } }],
+    });
+    assert.deepStrictEqual(sns.messageIds, ['sns-1']);
+    assert.deepStrictEqual(sns.topicArns, ['arn:t']);
+
+    const eventBridge = extractEventContext({
+        id: 'eb-1',
+        'detail-type': 'OrderPlaced',
+        source: 'shop.orders',
+        detail: {},
+    });
+    assert.strictEqual(eventBridge.detailType, 'OrderPlaced');
+    assert.strictEqual(eventBridge.source, 'shop.orders');
+
+    const s3 = extractEventContext({
+        Records: [
+            {
+                eventSource: 'aws:s3',
+                eventName: 'ObjectCreated:Put',
+                s3: { bucket: { name: 'b' }, object: { key: 'k.json' } },
+            },
+        ],
+    });
+    assert.deepStrictEqual(s3.buckets, ['b']);
+    assert.deepStrictEqual(s3.keys, ['k.json']);
+
+    // Large batches bind the record count and a few IDs, not one ID per record
+    const bigBatch = extractEventContext({
+        Records: Array.from({ length: 10000 }, (_, i) => ({
+            eventSource: 'aws:sqs',
+            messageId: `m-${i}`,
+            eventSourceARN: `arn:aws:sqs:q-${i % 20}`,
+        })),
+    });
+    assert.strictEqual(bigBatch.recordCount, 10000);
+    assert.deepStrictEqual(bigBatch.messageIds, ['m-0', 'm-1', 'm-2', 'm-3', 'm-4']);
+    assert.strictEqual(bigBatch.queueArns.length, 5);
+    assert.ok(JSON.stringify(bigBatch).length < 1000);
+
+    const bigS3 = extractEventContext({
+        Records: Array.from({ length: 1000 }, (_, i) => ({
+            eventSource: 'aws:s3',
+            s3: { bucket: { name: 'b' }, object: { key: `k-${i}.json` } },
+        })),
+    });
+    assert.deepStrictEqual(bigS3.buckets, ['b']);
+    assert.strictEqual(bigS3.keys.length, 5);
+
+    const ddb = extractEventContext({
+        Records: [
+            { eventSource: 'aws:dynamodb', eventName: 'INSERT', eventSourceARN: 'arn:s' },
+            { eventSource: 'aws:dynamodb', eventName: 'MODIFY', eventSourceARN: 'arn:s' },
+        ],
+    });
+    assert.deepStrictEqual(ddb.eventNames, ['INSERT', 'MODIFY']);
+
+    // Unknown and non-object events
+    assert.deepStrictEqual(extractEventContext({ foo: 'bar' }), {});
+    assert.deepStrictEqual(extractEventContext('raw'), {});
+
+    // Custom extractors take precedence
+    registerEventExtractor({
+        name: 'custom',
+        matches: (event) => event?.kind === 'custom',
+        extract: (event) => ({ tenantId: event.tenantId }),
+    });
+    assert.deepStrictEqual(extractEventContext({ kind: 'custom', tenantId: 't-1' }), {
+        eventType: 'custom',
+        tenantId: 't-1',
+    });
+
+    console.log('\n--> invoking wrapped handler with an SQS event');
+    const handler = withLogger(async () => {
+        getLogger()?.info('Handling SQS batch');
+    });
+    await handler(
+        { Records: [{ eventSource: 'aws:sqs', messageId: 'm-1', eventSourceARN: 'arn:q' }] },
+        { awsRequestId: 'req-events-1', functionName: 'events-fn' },
+    );
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,79 @@
+import {
+    configureDefaultLogger,
+    createLogger,
+    getDefaultLogger,
+    log,
+    runWithLogger,
+    tryUpdateLoggerContext,
+    MemoryTransport,
+} from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Log Facade Test ---');
+
+    console.log('\n--> outside a context: default logger');
+    const fallback = new MemoryTransport();
+    configureDefaultLogger({ level: 'debug', transports: [fallback] });
+    const defaultLogger = getDefaultLogger();
+    assert.strictEqual(getDefaultLogger(), defaultLogger, 'created once');
+
+    log.debug('Script started');
+    log.child({ module: 'billing' }).info('Child of the default logger');
+    log.error('Script failed', new Error('Nope'));
+    assert.deepStrictEqual(
+        fallback.entries.map((e) => e.message),
+        ['Script started', 'Child of the default logger', 'Script failed'],
+    );
+    assert.strictEqual(fallback.entries[1].module, 'billing');
+    assert.strictEqual(fallback.entries[2].error.message, 'Nope');
+
+    console.log('\n--> inside a context: context logger');
+    const scoped = new MemoryTransport();
+    const contextLogger = createLogger({ transports: [scoped] }).child({ requestId: 'req-1' });
+    await runWithLogger(contextLogger, async () => {
+        await Promise.resolve();
+        log.info('From library code');
+        assert.strictEqual(log.isLevelEnabled('debug'), false);
+    });
+    assert.strictEqual(scoped.entries.length, 1);
+    assert.strictEqual(scoped.entries[0].requestId, 'req-1');
+    assert.strictEqual(fallback.entries.length, 3, 'default logger untouched');
+
+    console.log('\n--> reconfiguring replaces the default logger');
+    const reconfigured = new MemoryTransport();
+    configureDefaultLogger({ transports: [reconfigured] });
+    assert.notStrictEqual(getDefaultLogger(), defaultLogger);
+    log.debug('Filtered at info');
+    log.info('Kept');
+    assert.deepStrictEqual(
+        reconfigured.entries.map((e) => e.message),
+        ['Kept'],
+    );
+
+    console.log('\n--> tryUpdateLoggerContext');
+    const warnings: any[] = [];
+    const originalWarn = console.warn;
+    console.warn = (...args: any[]) => warnings.push(args);
+    try {
+        assert.strictEqual(tryUpdateLoggerContext(contextLogger), false);
+        runWithLogger(contextLogger, () => {
+            const extended = contextLogger.child({ userId: 'u-1' });
+            assert.strictEqual(tryUpdateLoggerContext(extended), true);
+            log.info('Extended');
+        });
+    } finally {
+        console.warn = originalWarn;
+    }
+    assert.strictEqual(warnings.length, 0, 'no console warning');
+    assert.strictEqual(scoped.entries[1].userId, 'u-1');
+
+    configureDefaultLogger();
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,53 @@
+import { createLogger, MemoryTransport, resolveLogFormat } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Output Formats Test ---');
+
+    for (const format of ['json', 'pretty', 'logfmt'] as const) {
+        const memory = new MemoryTransport();
+        const logger = createLogger({
+            format,
+            transports: [memory],
+            redaction: { keys: ['password'] },
+        }).child({ requestId: 'req-format-1' });
+
+        logger.info('User signed in', { password: 'hunter2', user: { name: 'Alice Smith' } });
+
+        assert.strictEqual(memory.entries.length, 1);
+        assert.strictEqual(memory.entries[0].password, '*****');
+        assert.strictEqual(memory.entries[0].requestId, 'req-format-1');
+        assert.ok(!memory.lines[0].includes('hunter2'), `${format}: secret must be redacted`);
+        console.log(`${format}:\n${memory.lines[0]}`);
+    }
+
+    const logfmt = new MemoryTransport();
+    createLogger({ format: 'logfmt', transports: [logfmt] }).info('Order placed', {
+        order: { id: 7, note: 'leave at door' },
+    });
+    assert.ok(
+        /level=info msg="Order placed" order\.id=7 order\.note="leave at door"$/.test(
+            logfmt.lines[0],
+        ),
+    );
+
+    const json = new MemoryTransport();
+    createLogger({ format: 'json', transports: [json] }).warn('Careful');
+    assert.strictEqual(JSON.parse(json.lines[0]).message, 'Careful');
+
+    // Explicit option wins, then LOG_FORMAT, then Lambda detection
+    assert.strictEqual(resolveLogFormat('logfmt'), 'logfmt');
+    process.env.LOG_FORMAT = 'pretty';
+    assert.strictEqual(resolveLogFormat(), 'pretty');
+    delete process.env.LOG_FORMAT;
+    process.env.AWS_LAMBDA_FUNCTION_NAME = 'format-fn';
+    assert.strictEqual(resolveLogFormat(), 'json');
+    delete process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,92 @@
+import { PassThrough, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { withLogger, withStreamingLogger, getLogger, MemoryTransport } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Callback and Streaming Handlers Test ---');
+
+    const memory = new MemoryTransport();
+    const options = { transports: [memory], invocationSummary: false };
+    const messagesFor = (requestId: string) =>
+        memory.entries.filter((e) => e.requestId === requestId);
+
+    console.log('\n--> callback(null, result)');
+    const succeeding = withLogger((event: { name: string }, _context: any, callback: any) => {
+        setTimeout(() => {
+            getLogger()?.info('Inside callback handler');
+            callback(null, { greeting: `hello ${event.name}` });
+        }, 5);
+    }, options);
+    const result = await succeeding({ name: 'ada' }, { awsRequestId: 'req-cb-ok' });
+    assert.deepStrictEqual(result, { greeting: 'hello ada' });
+    assert.deepStrictEqual(
+        messagesFor('req-cb-ok').map((e) => e.message),
+        ['Inside callback handler'],
+        'async context stays active until the callback',
+    );
+
+    console.log('\n--> callback(error)');
+    const failing = withLogger((_event: any, _context: any, callback: any) => {
+        setImmediate(() => callback(new Error('Downstream unavailable')));
+    }, options);
+    await assert.rejects(
+        async () => failing({}, { awsRequestId: 'req-cb-fail' }),
+        /Downstream unavailable/,
+    );
+    const [failure] = messagesFor('req-cb-fail');
+    assert.strictEqual(failure.message, 'Unhandled Lambda Exception');
+    assert.strictEqual(failure.error.message, 'Downstream unavailable');
+
+    console.log('\n--> synchronous handlers still resolve');
+    const sync = withLogger(() => 'done' as any, options);
+    assert.strictEqual(await sync({}, { awsRequestId: 'req-sync' }), 'done');
+    const voidHandler = withLogger(() => {}, options);
+    assert.strictEqual(await voidHandler({}, { awsRequestId: 'req-void' }), undefined);
+
+    console.log('\n--> response streaming handler');
+    const chunks: Buffer[] = [];
+    const responseStream = new PassThrough();
+    responseStream.on('data', (chunk) => chunks.push(chunk));
+
+    const streaming = withStreamingLogger(async (_event, stream) => {
+        getLogger()?.info('Streaming started');
+        stream.write('héllo ');
+        await pipeline(Readable.from([Buffer.from('wor'), Buffer.from('ld')]), stream);
+    }, options);
+    await streaming({}, responseStream, { awsRequestId: 'req-stream' });
+    assert.strictEqual(Buffer.concat(chunks).toString(), 'héllo world');
+
+    const finished = messagesFor('req-stream').find(
+        (e) => e.message === 'Response stream finished',
+    );
+    assert.ok(finished);
+    assert.strictEqual(finished.bytesWritten, Buffer.byteLength('héllo world'));
+
+    console.log('\n--> stream errors are logged');
+    const broken = new PassThrough();
+    const erroring = withStreamingLogger(async (_event, stream) => {
+        stream.write('partial');
+        stream.destroy(new Error('Client disconnected'));
+        throw new Error('Write failed');
+    }, options);
+    await assert.rejects(async () => erroring({}, broken, { awsRequestId: 'req-stream-err' }));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const streamError = messagesFor('req-stream-err').find(
+        (e) => e.message === 'Response stream error',
+    );
+    assert.ok(streamError);
+    assert.strictEqual(streamError.error.message, 'Client disconnected');
+    assert.strictEqual(streamError.bytesWritten, 7);
+    assert.ok(
+        messagesFor('req-stream-err').some((e) => e.message === 'Unhandled Lambda Exception'),
+    );
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,110 @@
+import { recursiveRedact, stableStringify, RedactionConfig } from '../src/index';
+import assert from 'assert';
+import crypto from 'crypto';
+
+const run = async () => {
+    console.log('--- Keyed Hashing & Format-Preserving Mask Test ---');
+
+    const config: RedactionConfig = {
+        keys: ['ssn', 'userId', 'profile', 'email', 'card', 'shortRef'],
+        strategies: {
+            ssn: 'hmac',
+            userId: 'hmac-16',
+            profile: 'hash',
+            email: 'mask-email',
+            card: 'mask-card',
+            shortRef: 'hash-8',
+        },
+        hashKey: 'test-secret',
+    };
+
+    const input = {
+        ssn: '123-45-6789',
+        userId: 'user-42',
+        profile: { b: 2, a: [1, { z: true, y: null }] },
+        email: 'alice@example.com',
+        card: '4111 1111 1111 1111',
+        shortRef: 'abc',
+    };
+    const redacted = recursiveRedact(input, config);
+    console.log('Redacted:', JSON.stringify(redacted, null, 2));
+
+    const expectedHmac = crypto
+        .createHmac('sha256', 'test-secret')
+        .update('123-45-6789')
+        .digest('hex');
+    assert.strictEqual(redacted.ssn, expectedHmac);
+    assert.notStrictEqual(
+        redacted.ssn,
+        crypto.createHash('sha256').update('123-45-6789').digest('hex'),
+        'hmac must differ from the unsalted hash',
+    );
+    assert.strictEqual(redacted.userId.length, 16);
+    assert.strictEqual(redacted.shortRef.length, 8);
+    assert.strictEqual(redacted.email, '*****@example.com');
+    assert.strictEqual(redacted.card, '4111 11** **** 1111');
+
+    // Objects hash deterministically regardless of key order
+    const reordered = recursiveRedact({ profile: { a: [1, { y: null, z: true }], b: 2 } }, config);
+    assert.ok(/^[a-f0-9]{64}$/.test(redacted.profile));
+    assert.strictEqual(reordered.profile, redacted.profile);
+    assert.strictEqual(stableStringify({ b: 1, a: [2, 'x'] }), '{"a":[2,"x"],"b":1}');
+
+    // Dates hash by their JSON form; Map and Set entries are part of the digest
+    const hashed = (profile: unknown) => recursiveRedact({ profile }, config).profile;
+    assert.notStrictEqual(hashed({ at: new Date(1) }), hashed({ at: new Date(2) }));
+    assert.strictEqual(stableStringify({ at: new Date(1) }), '{"at":"1970-01-01T00:00:00.001Z"}');
+    assert.notStrictEqual(hashed(new Map([['a', 1]])), hashed(new Map([['a', 2]])));
+    assert.strictEqual(
+        hashed(
+            new Map<string, number>([
+                ['a', 1],
+                ['b', 2],
+            ]),
+        ),
+        hashed(
+            new Map<string, number>([
+                ['b', 2],
+                ['a', 1],
+            ]),
+        ),
+    );
+    assert.notStrictEqual(hashed(new Set([1])), hashed(new Set([2])));
+    assert.notStrictEqual(hashed(new Set([1, 2])), hashed([1, 2]));
+
+    // An empty digest is never a valid replacement
+    for (const strategy of ['hash-0', 'hmac-0'] as const) {
+        assert.throws(
+            () => recursiveRedact({ ssn: 'x' }, { keys: ['ssn'], strategies: { ssn: strategy } }),
+            /digest length must be at least 1/,
+        );
+    }
+    assert.throws(
+        () => recursiveRedact({ ssn: 'x' }, { keys: ['ssn'], defaultStrategy: 'hash-0' }),
+        /digest length must be at least 1/,
+    );
+
+    // Deterministic across calls: analysts can correlate the same user
+    assert.strictEqual(recursiveRedact({ ssn: '123-45-6789' }, config).ssn, redacted.ssn);
+
+    // Key from the environment, and a safe marker when no key is configured
+    process.env.REDACTION_HMAC_KEY = 'test-secret';
+    const fromEnv = recursiveRedact(
+        { ssn: '123-45-6789' },
+        { keys: ['ssn'], strategies: { ssn: 'hmac' } },
+    );
+    assert.strictEqual(fromEnv.ssn, expectedHmac);
+    delete process.env.REDACTION_HMAC_KEY;
+    const noKey = recursiveRedact(
+        { ssn: '123-45-6789' },
+        { keys: ['ssn'], strategies: { ssn: 'hmac' } },
+    );
+    assert.strictEqual(noKey.ssn, '[HMAC_KEY_MISSING]');
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,116 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    createHttpLogger,
+    withHttpLogger,
+    getLogger,
+    getRequestId,
+    MemoryTransport,
+} from '../src/index';
+import assert from 'assert';
+
+const listen = async (server: http.Server): Promise<string> => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const close = (server: http.Server) => new Promise((resolve) => server.close(resolve));
+
+// Access lines are written on 'finish', which can land after the client has the response
+const waitForAccessLine = async (memory: MemoryTransport, count: number) => {
+    for (let i = 0; i < 50; i++) {
+        if (memory.entries.filter((e) => e.message === 'HTTP Request').length >= count) return;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+};
+
+const run = async () => {
+    console.log('--- HTTP Middleware Test ---');
+
+    console.log('\n--> Node http server');
+    const memory = new MemoryTransport();
+    const server = http.createServer(
+        withHttpLogger(
+            (req, res) => {
+                setTimeout(() => {
+                    getLogger()?.info('Handling request');
+                    res.statusCode = req.url?.startsWith('/fail') ? 503 : 200;
+                    res.end(getRequestId());
+                }, 5);
+            },
+            { transports: [memory] },
+        ),
+    );
+    const baseUrl = await listen(server);
+
+    try {
+        const incoming = await fetch(`${baseUrl}/orders?token=secret`, {
+            headers: { 'x-request-id': 'req-from-proxy', 'x-correlation-id': 'corr-1' },
+        });
+        assert.strictEqual(await incoming.text(), 'req-from-proxy');
+        assert.strictEqual(incoming.headers.get('x-request-id'), 'req-from-proxy');
+
+        const generated = await fetch(`${baseUrl}/fail`, { method: 'POST' });
+        const generatedId = generated.headers.get('x-request-id');
+        assert.ok(generatedId && generatedId.length > 0, 'request ID is generated');
+        assert.strictEqual(await generated.text(), generatedId);
+
+        await waitForAccessLine(memory, 2);
+    } finally {
+        await close(server);
+    }
+
+    const handled = memory.entries.find((e) => e.message === 'Handling request');
+    assert.ok(handled);
+    assert.strictEqual(handled.requestId, 'req-from-proxy');
+    assert.strictEqual(handled.correlationId, 'corr-1');
+
+    const accessLines = memory.entries.filter((e) => e.message === 'HTTP Request');
+    assert.strictEqual(accessLines.length, 2);
+    assert.strictEqual(accessLines[0].method, 'GET');
+    assert.strictEqual(accessLines[0].path, '/orders', 'query string is not logged');
+    assert.strictEqual(accessLines[0].statusCode, 200);
+    assert.strictEqual(accessLines[0].level, 'info');
+    assert.strictEqual(typeof accessLines[0].durationMs, 'number');
+    assert.strictEqual(accessLines[1].statusCode, 503);
+    assert.strictEqual(accessLines[1].level, 'warn');
+
+    console.log('\n--> Express-style (req, res, next) chain');
+    const chainMemory = new MemoryTransport();
+    const middleware = createHttpLogger({
+        transports: [chainMemory],
+        requestIdHeader: 'X-Trace-Request',
+        accessLog: false,
+        debugTriggers: false,
+    });
+    const route = (_req: http.IncomingMessage, res: http.ServerResponse) => {
+        getLogger()?.debug('Debug in route');
+        getLogger()?.info('In route');
+        res.end('ok');
+    };
+    const chainServer = http.createServer((req, res) =>
+        middleware(req, res, () => route(req, res)),
+    );
+    const chainUrl = await listen(chainServer);
+    try {
+        // The client cannot raise the level: debugTriggers is off
+        const response = await fetch(chainUrl, {
+            headers: { 'x-trace-request': 'abc-123', 'x-debug': 'true' },
+        });
+        assert.strictEqual(response.headers.get('x-trace-request'), 'abc-123');
+        await response.text();
+    } finally {
+        await close(chainServer);
+    }
+    assert.deepStrictEqual(
+        chainMemory.entries.map((e) => [e.message, e.requestId]),
+        [['In route', 'abc-123']],
+    );
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
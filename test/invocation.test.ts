@@ -0,0 +1,63 @@
+import { withLogger, MemoryTransport } from '../src/index';
+import assert from 'assert';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createMockContext = (requestId: string, timeoutMs: number) => {
+    const deadline = Date.now() + timeoutMs;
+    return {
+        awsRequestId: requestId,
+        functionName: 'summary-fn',
+        memoryLimitInMB: '128',
+        getRemainingTimeInMillis: () => deadline - Date.now(),
+    };
+};
+
+const run = async () => {
+    console.log('--- Invocation Summary & Timeout Warning Test ---');
+
+    const memory = new MemoryTransport();
+    const summaries = (requestId: string) =>
+        memory.entries.filter(
+            (e) => e.message === 'Lambda Invocation Summary' && e.requestId === requestId,
+        );
+    const options = { transports: [memory], timeoutWarningMs: 100 };
+
+    console.log('\n--> successful API Gateway response');
+    const ok = withLogger(async () => ({ statusCode: 201, body: '{}' }), options);
+    await ok({}, createMockContext('req-ok', 3000));
+    const [success] = summaries('req-ok');
+    assert.strictEqual(success.outcome, 'success');
+    assert.strictEqual(success.statusCode, 201);
+    assert.strictEqual(success.memoryLimitMb, 128);
+    assert.strictEqual(typeof success.durationMs, 'number');
+    assert.strictEqual(typeof success.memoryUsedMb, 'number');
+
+    console.log('\n--> failing handler');
+    const failing = withLogger(async () => {
+        throw new Error('Boom');
+    }, options);
+    await assert.rejects(async () => failing({}, createMockContext('req-error', 3000)), /Boom/);
+    assert.strictEqual(summaries('req-error')[0].outcome, 'error');
+
+    console.log('\n--> handler that runs into the timeout');
+    const slow = withLogger(async () => {
+        await sleep(400);
+        return { statusCode: 200 };
+    }, options);
+    await slow({}, createMockContext('req-timeout', 300));
+    const warning = memory.entries.find(
+        (e) => e.message === 'Lambda invocation about to time out' && e.requestId === 'req-timeout',
+    );
+    assert.ok(warning, 'timeout warning should be logged');
+    const timeoutSummaries = summaries('req-timeout');
+    assert.strictEqual(timeoutSummaries.length, 1, 'summary should be written exactly once');
+    assert.strictEqual(timeoutSummaries[0].outcome, 'timeout');
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,91 @@
+import { withLogger, getLogger, MemoryTransport } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Buffered Debug Logs Test ---');
+
+    const memory = new MemoryTransport();
+    const options = {
+        level: 'info',
+        transports: [memory],
+        redaction: { keys: ['password'] },
+        logBuffer: { maxSize: 3 },
+        invocationSummary: false,
+    };
+    const messagesFor = (requestId: string) =>
+        memory.entries.filter((e) => e.requestId === requestId).map((e) => e.message);
+
+    console.log('\n--> successful invocation: debug trail is dropped');
+    const ok = withLogger(async () => {
+        getLogger()?.debug('step 1');
+        getLogger()?.info('done');
+    }, options);
+    await ok({}, { awsRequestId: 'req-ok' });
+    assert.deepStrictEqual(messagesFor('req-ok'), ['done']);
+
+    console.log('\n--> failing invocation: debug trail is flushed before the error');
+    const failing = withLogger(async () => {
+        getLogger()?.debug('step 1', { password: 'hunter2' });
+        getLogger()?.debug('step 2');
+        throw new Error('Boom');
+    }, options);
+    await assert.rejects(async () => failing({}, { awsRequestId: 'req-fail' }), /Boom/);
+    // maxSize 3: 'Lambda Event' and 'Lambda Context' were pushed first, one of them was dropped
+    assert.deepStrictEqual(messagesFor('req-fail'), [
+        'Buffered debug records dropped',
+        'Lambda Context',
+        'step 1',
+        'step 2',
+        'Unhandled Lambda Exception',
+    ]);
+    const step1 = memory.entries.find((e) => e.requestId === 'req-fail' && e.message === 'step 1');
+    assert.ok(step1);
+    assert.strictEqual(step1.password, '*****', 'redaction applies at flush time');
+    assert.ok(step1.bufferedAt, 'buffered records keep their original time');
+
+    console.log('\n--> logger.error() flushes without the handler throwing');
+    const handled = withLogger(
+        async () => {
+            getLogger()?.debug('before the error');
+            getLogger()?.error('Handled failure', new Error('Soft'));
+            getLogger()?.debug('after the error');
+            return { statusCode: 500 };
+        },
+        { ...options, logBuffer: { maxSize: 10 } },
+    );
+    await handled({}, { awsRequestId: 'req-handled' });
+    assert.deepStrictEqual(messagesFor('req-handled'), [
+        'Lambda Event',
+        'Lambda Context',
+        'before the error',
+        'Handled failure',
+    ]);
+
+    console.log('\n--> buffered context is a snapshot taken at the debug() call');
+    const mutating = withLogger(
+        async () => {
+            const state = { step: 'before', items: ['a'] };
+            getLogger()?.debug('state snapshot', { state });
+            getLogger()?.debug('with a callback', { state, onDone: () => {} });
+            state.step = 'after';
+            state.items.push('b');
+            throw new Error('Late failure');
+        },
+        { ...options, logBuffer: { maxSize: 10 } },
+    );
+    await assert.rejects(async () => mutating({}, { awsRequestId: 'req-mutated' }), /Late/);
+    const snapshots = memory.entries.filter(
+        (e) => e.requestId === 'req-mutated' && e.state !== undefined,
+    );
+    assert.strictEqual(snapshots.length, 2);
+    for (const snapshot of snapshots) {
+        assert.deepStrictEqual(snapshot.state, { step: 'before', items: ['a'] });
+    }
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
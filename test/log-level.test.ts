@@ -0,0 +1,134 @@
+import {
+    createLogger,
+    MemoryTransport,
+    runWithLogger,
+    setContextLogLevel,
+    withLogger,
+    getLogger,
+    resolveRequestLogLevel,
+} from '../src/index';
+import assert from 'assert';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const run = async () => {
+    console.log('--- Dynamic Log Level Test ---');
+
+    const memory = new MemoryTransport();
+    const logger = createLogger({ level: 'info', transports: [memory] });
+    const messages = () => memory.entries.map((e) => e.message);
+
+    // setLevel / isLevelEnabled
+    assert.strictEqual(logger.isLevelEnabled('debug'), false);
+    logger.debug('hidden');
+    logger.setLevel('debug');
+    assert.strictEqual(logger.isLevelEnabled('debug'), true);
+    logger.debug('visible');
+    logger.setLevel('info');
+    assert.deepStrictEqual(messages(), ['visible']);
+    assert.throws(() => logger.setLevel('loud'), /Unknown log level/);
+    logger.setLevel('DEBUG');
+    assert.strictEqual(logger.isLevelEnabled('debug'), true);
+    logger.setLevel('info');
+
+    // Children follow the parent until they set their own level
+    const child = logger.child({ component: 'child' });
+    const quietChild = logger.child({ component: 'quiet' });
+    quietChild.setLevel('error');
+    logger.setLevel('warn');
+    assert.strictEqual(child.isLevelEnabled('info'), false);
+    assert.strictEqual(quietChild.isLevelEnabled('warn'), false);
+    logger.setLevel('info');
+
+    // Context overrides are scoped to a single concurrent request
+    memory.clear();
+    await Promise.all([
+        runWithLogger(
+            logger,
+            async () => {
+                await sleep(5);
+                getLogger()?.debug('debug request');
+            },
+            { requestId: 'req-debug', level: 'debug' },
+        ),
+        runWithLogger(
+            logger,
+            async () => {
+                await sleep(5);
+                getLogger()?.debug('normal request');
+            },
+            'req-normal',
+        ),
+    ]);
+    assert.deepStrictEqual(messages(), ['debug request']);
+
+    memory.clear();
+    runWithLogger(logger, () => {
+        setContextLogLevel('debug');
+        logger.debug('raised mid-request');
+    });
+    logger.debug('after request');
+    assert.deepStrictEqual(messages(), ['raised mid-request']);
+
+    // Context levels are normalized like logger levels; unknown ones never silence errors
+    memory.clear();
+    runWithLogger(logger, () => {
+        setContextLogLevel('DEBUG');
+        logger.debug('upper-case level');
+        assert.throws(() => setContextLogLevel('loud'), /Unknown log level/);
+        logger.error('error still written');
+    });
+    runWithLogger(logger, () => logger.debug('upper-case option'), { level: 'DEBUG' });
+    assert.throws(() => runWithLogger(logger, () => {}, { level: 'loud' }), /Unknown log level/);
+    assert.deepStrictEqual(messages(), [
+        'upper-case level',
+        'error still written',
+        'upper-case option',
+    ]);
+
+    // Request triggers
+    assert.strictEqual(resolveRequestLogLevel({ headers: { 'X-Debug': 'true' } }), 'debug');
+    assert.strictEqual(resolveRequestLogLevel({ debug: true }), 'debug');
+    assert.strictEqual(resolveRequestLogLevel({}, { debugSampleRate: 1 }), 'debug');
+    assert.strictEqual(resolveRequestLogLevel({}, { debugSampleRate: 0 }), undefined);
+    const untrusted = { debug: true, headers: { 'x-debug': 'true' } };
+    assert.strictEqual(resolveRequestLogLevel(untrusted, { debugTriggers: false }), undefined);
+    assert.strictEqual(
+        resolveRequestLogLevel(untrusted, { debugTriggers: false, debugSampleRate: 1 }),
+        'debug',
+        'sampling still applies with triggers disabled',
+    );
+
+    console.log('\n--> invoking wrapped handler with x-debug header');
+    memory.clear();
+    const handler = withLogger(
+        async () => {
+            getLogger()?.debug('handler debug');
+        },
+        { level: 'info', transports: [memory] },
+    );
+    await handler({ headers: { 'x-debug': '1' } }, { awsRequestId: 'req-level-1' });
+    await handler({ headers: {} }, { awsRequestId: 'req-level-2' });
+    const debugRequests = memory.entries
+        .filter((e) => e.message === 'handler debug')
+        .map((e) => e.requestId);
+    assert.deepStrictEqual(debugRequests, ['req-level-1']);
+
+    console.log('\n--> ignoring the x-debug header when debugTriggers is false');
+    memory.clear();
+    const guarded = withLogger(
+        async () => {
+            getLogger()?.debug('handler debug');
+        },
+        { level: 'info', transports: [memory], debugTriggers: false },
+    );
+    await guarded({ debug: true, headers: { 'x-debug': '1' } }, { awsRequestId: 'req-level-3' });
+    assert.ok(!memory.entries.some((e) => e.message === 'handler debug'));
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,117 @@
+import {
+    createLogger,
+    createMetrics,
+    getLogger,
+    getMetrics,
+    withLogger,
+    Logger,
+    MemoryTransport,
+    EMF_LOG_MESSAGE,
+} from '../src/index';
+import assert from 'assert';
+
+// Minimal Logger that records what the metrics collector writes
+const createRecordingLogger = (records: Record<string, any>[]): Logger => {
+    const logger: Logger = {
+        debug: () => {},
+        info: (message, context) => records.push({ message, ...context }),
+        warn: () => {},
+        error: () => {},
+        child: () => logger,
+        setLevel: () => {},
+        isLevelEnabled: () => true,
+        startTimer: () => () => {},
+        withSpan: (name, fn) => fn(logger),
+    };
+    return logger;
+};
+
+const run = async () => {
+    console.log('--- EMF Metrics Test ---');
+
+    const records: Record<string, any>[] = [];
+    const metrics = createMetrics(createRecordingLogger(records), {
+        namespace: 'TestApp',
+        defaultDimensions: { service: 'orders' },
+    });
+
+    metrics.setDimensions({ stage: 'dev' });
+    metrics.putMetric('OrdersPlaced', 1, 'Count');
+    metrics.putMetric('OrdersPlaced', 2, 'Count');
+    metrics.putMetric('Latency', 12.5, 'Milliseconds');
+    metrics.flush();
+
+    assert.strictEqual(records.length, 1);
+    const [doc] = records;
+    assert.deepStrictEqual(doc._aws.CloudWatchMetrics, [
+        {
+            Namespace: 'TestApp',
+            Dimensions: [['service', 'stage']],
+            Metrics: [
+                { Name: 'OrdersPlaced', Unit: 'Count' },
+                { Name: 'Latency', Unit: 'Milliseconds' },
+            ],
+        },
+    ]);
+    assert.strictEqual(typeof doc._aws.Timestamp, 'number');
+    assert.strictEqual(doc.service, 'orders');
+    assert.strictEqual(doc.stage, 'dev');
+    assert.deepStrictEqual(doc.OrdersPlaced, [1, 2]);
+    assert.strictEqual(doc.Latency, 12.5);
+
+    // Flushing clears the recorded metrics
+    metrics.flush();
+    assert.strictEqual(records.length, 1);
+
+    // More than 100 metrics are split across documents
+    for (let i = 0; i < 150; i++) metrics.putMetric(`m${i}`, i);
+    metrics.flush();
+    assert.strictEqual(records.length, 3);
+    assert.strictEqual(records[1]._aws.CloudWatchMetrics[0].Metrics.length, 100);
+    assert.strictEqual(records[2]._aws.CloudWatchMetrics[0].Metrics.length, 50);
+
+    console.log('\n--> invoking wrapped handler that records a metric');
+    const handler = withLogger(
+        async () => {
+            getMetrics()?.putMetric('Processed', 1, 'Count');
+        },
+        { metrics: { namespace: 'TestApp' } },
+    );
+    await handler({}, { awsRequestId: 'req-metrics-1', functionName: 'metrics-fn' });
+
+    console.log('\n--> metrics are written even when the logger is at warn');
+    const memory = new MemoryTransport();
+    const quietHandler = withLogger(
+        async () => {
+            getMetrics()?.putMetric('Orders', 1, 'Count');
+            getLogger()?.info('Filtered out');
+        },
+        { level: 'warn', transports: [memory], invocationSummary: false },
+    );
+    await quietHandler({}, { awsRequestId: 'req-metrics-2' });
+    assert.deepStrictEqual(
+        memory.entries.map((e) => e.message),
+        [EMF_LOG_MESSAGE],
+    );
+    assert.deepStrictEqual(memory.entries[0].Orders, 1);
+
+    // Same with the level set by Lambda's Advanced Logging Controls
+    process.env.AWS_LAMBDA_LOG_LEVEL = 'ERROR';
+    try {
+        const alcMemory = new MemoryTransport();
+        const alcMetrics = createMetrics(createLogger({ transports: [alcMemory] }));
+        alcMetrics.putMetric('Orders', 2, 'Count');
+        alcMetrics.flush();
+        assert.strictEqual(alcMemory.entries.length, 1);
+        assert.strictEqual(alcMemory.entries[0].Orders, 2);
+    } finally {
+        delete process.env.AWS_LAMBDA_LOG_LEVEL;
+    }
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
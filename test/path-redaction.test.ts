@@ -0,0 +1,100 @@
+import { recursiveRedact, createRedactor, parseRedactionPath, RedactionConfig } from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Path Redaction Test ---');
+
+    assert.deepStrictEqual(parseRedactionPath('$.headers["X-Api-Key"]'), ['headers', 'x-api-key']);
+    assert.deepStrictEqual(parseRedactionPath('event.body.user.*.ssn'), [
+        'event',
+        'body',
+        'user',
+        '*',
+        'ssn',
+    ]);
+    assert.deepStrictEqual(parseRedactionPath('items[0].**.pin'), ['items', '0', '**', 'pin']);
+
+    const config: RedactionConfig = {
+        keys: ['token'],
+        keyPatterns: [/^x-.*-secret$/i],
+        paths: [
+            'event.headers.authorization',
+            'headers["x-api-key"]',
+            'event.body.user.*.ssn',
+            '**.password',
+            'cards[*]',
+        ],
+        allowPaths: ['pagination.token'],
+        strategies: {
+            '**.password': 'remove',
+            'cards[*]': 'mask-last-4',
+        },
+    };
+
+    const redacted = recursiveRedact(
+        {
+            event: {
+                headers: { Authorization: 'Bearer abc', 'X-Trace-Secret': 's3cr3t' },
+                body: {
+                    user: {
+                        primary: { ssn: '123-45-6789', name: 'Alice' },
+                        spouse: { ssn: '987-65-4321', name: 'Bob' },
+                    },
+                    ssn: 'top-level ssn is not matched',
+                },
+            },
+            headers: { 'x-api-key': 'key-123', accept: 'json' },
+            deeply: { nested: [{ password: 'p1' }], password: 'p2' },
+            password: 'p3',
+            cards: ['4111111111111111', '5500000000000004'],
+            session: { token: 'session-token' },
+            pagination: { token: 'next-page-cursor' },
+        },
+        config,
+    );
+    console.log('Redacted:', JSON.stringify(redacted, null, 2));
+
+    assert.strictEqual(redacted.event.headers.Authorization, '*****');
+    assert.strictEqual(redacted.event.headers['X-Trace-Secret'], '*****');
+    assert.strictEqual(redacted.event.body.user.primary.ssn, '*****');
+    assert.strictEqual(redacted.event.body.user.spouse.ssn, '*****');
+    assert.strictEqual(redacted.event.body.user.primary.name, 'Alice');
+    assert.strictEqual(redacted.event.body.ssn, 'top-level ssn is not matched');
+    assert.strictEqual(redacted.headers['x-api-key'], '*****');
+    assert.strictEqual(redacted.headers.accept, 'json');
+    assert.ok(!('password' in redacted.deeply.nested[0]));
+    assert.ok(!('password' in redacted.deeply));
+    assert.ok(!('password' in redacted));
+    assert.deepStrictEqual(redacted.cards, ['************1111', '************0004']);
+    assert.strictEqual(redacted.session.token, '*****');
+    assert.strictEqual(redacted.pagination.token, 'next-page-cursor');
+
+    // createRedactor compiles once and is reusable
+    const redactor = createRedactor(config);
+    assert.strictEqual(redactor({ password: 'x', a: 1 }).a, 1);
+    assert.ok(!('password' in redactor({ password: 'x' })));
+
+    // Global / sticky key patterns must match every key, not every other one
+    const statefulRedactor = createRedactor({ keyPatterns: [/token$/gi, /^pin/y] });
+    const tokens = statefulRedactor({
+        accessToken: 'secret1',
+        refreshToken: 'secret2',
+        idToken: 'secret3',
+        pinCode: '1234',
+        pinHint: 'birthday',
+    });
+    assert.deepStrictEqual(tokens, {
+        accessToken: '*****',
+        refreshToken: '*****',
+        idToken: '*****',
+        pinCode: '*****',
+        pinHint: '*****',
+    });
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
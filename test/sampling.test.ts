@@ -0,0 +1,110 @@
+import {
+    createLogger,
+    MemoryTransport,
+    runWithLogger,
+    createMetrics,
+    createSampler,
+    getLogger,
+} from '../src/index';
+import assert from 'assert';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const run = async () => {
+    console.log('--- Sampling & Rate Limiting Test ---');
+
+    // Deterministic per request: a request keeps all of its debug lines or none
+    const memory = new MemoryTransport();
+    const logger = createLogger({
+        level: 'debug',
+        transports: [memory],
+        sampling: { rates: { debug: 0.5 } },
+    });
+
+    const requests = Array.from({ length: 40 }, (_, i) => `req-${i}`);
+    for (const requestId of requests) {
+        runWithLogger(
+            logger.child({ requestId }),
+            () => {
+                for (let line = 0; line < 5; line++) {
+                    getLogger()!.child({ line }).debug('Sampled debug line');
+                }
+                logger.warn('Always kept');
+            },
+            { requestId },
+        );
+    }
+
+    const debugByRequest = new Map<string, number>();
+    for (const entry of memory.entries.filter((e) => e.level === 'debug')) {
+        debugByRequest.set(entry.requestId, (debugByRequest.get(entry.requestId) || 0) + 1);
+    }
+    assert.ok(
+        [...debugByRequest.values()].every((count) => count === 5),
+        'all or nothing per request',
+    );
+    assert.ok(
+        debugByRequest.size > 0 && debugByRequest.size < requests.length,
+        'roughly half sampled',
+    );
+    assert.strictEqual(memory.entries.filter((e) => e.level === 'warn').length, requests.length);
+
+    // The same request ID always gets the same decision
+    const decide = (requestId: string) => {
+        memory.clear();
+        runWithLogger(logger, () => logger.debug('probe'), { requestId });
+        return memory.entries.length;
+    };
+    assert.strictEqual(decide('req-7'), decide('req-7'));
+
+    // Token bucket per message template, then a summary line
+    const limited = new MemoryTransport();
+    const limitedLogger = createLogger({
+        transports: [limited],
+        sampling: { rateLimit: { tokens: 3, intervalMs: 60000 }, summaryIntervalMs: 50 },
+    });
+    for (let i = 0; i < 10; i++) limitedLogger.info('Hot loop iteration', { i });
+    limitedLogger.info('Other message');
+    assert.strictEqual(limited.entries.filter((e) => e.message === 'Hot loop iteration').length, 3);
+
+    // EMF documents are never dropped
+    const metrics = createMetrics(limitedLogger);
+    for (let i = 0; i < 5; i++) {
+        metrics.putMetric('Hits', 1, 'Count');
+        metrics.flush();
+    }
+    assert.strictEqual(limited.entries.filter((e) => e.message === 'EMF Metrics').length, 5);
+
+    await sleep(60);
+    limitedLogger.info('After the interval');
+    const summary = limited.entries.find((e) => e.message === 'Log messages suppressed');
+    assert.ok(summary, 'summary should be written');
+    assert.strictEqual(summary.suppressedCount, 7);
+    assert.deepStrictEqual(summary.messages, { 'Hot loop iteration': 7 });
+    console.log(limited.lines.find((line) => line.includes('suppressed')));
+
+    // Templates named like Object.prototype members are counted like any other
+    const sampler = createSampler({
+        rateLimit: { tokens: 1, intervalMs: 60000 },
+        summaryIntervalMs: 0,
+    });
+    for (const message of ['constructor', 'toString', '__proto__']) {
+        for (let i = 0; i < 3; i++) sampler.shouldLog('info', message);
+    }
+    const prototypeSummary = sampler.takeSummary();
+    assert.ok(prototypeSummary);
+    assert.strictEqual(prototypeSummary.rateLimited, 6);
+    assert.strictEqual(Object.getPrototypeOf(prototypeSummary.messages), Object.prototype);
+    assert.deepStrictEqual(Object.entries(prototypeSummary.messages), [
+        ['constructor', 2],
+        ['toString', 2],
+        ['__proto__', 2],
+    ]);
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,69 @@
+import { withLogger, getLogger } from '../src/index';
+import { createFakeLambdaContext, createTestLogger } from '../src/testing';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Test Harness Test ---');
+
+    console.log('\n--> structured entries after redaction');
+    const logger = createTestLogger({
+        level: 'debug',
+        defaultContext: { service: 'orders' },
+        redaction: { keys: ['password'] },
+    });
+    logger.child({ userId: 'u-1' }).info('User signed in', { password: 'hunter2' });
+    logger.error('Payment failed', new Error('Card declined'), { orderId: 'o-1' });
+    logger.debug('Cache miss');
+
+    assert.strictEqual(logger.entries.length, 3);
+    const signedIn = logger.expectLogged('User signed in', 'info');
+    assert.deepStrictEqual(signedIn.context, {
+        service: 'orders',
+        userId: 'u-1',
+        password: '*****',
+    });
+    assert.ok(signedIn.output.includes('"userId":"u-1"'));
+
+    const failed = logger.findByMessage(/payment/i);
+    assert.ok(failed);
+    assert.strictEqual(failed.level, 'error');
+    assert.strictEqual(failed.error?.message, 'Card declined');
+    assert.strictEqual(failed.context.orderId, 'o-1');
+    assert.strictEqual(logger.filterByLevel('debug').length, 1);
+
+    logger.expectNoSecrets(['hunter2']);
+    assert.throws(() => logger.expectNoSecrets(['Card declined']), /Secret value found/);
+    assert.throws(() => logger.expectLogged('Never written'), /Expected a record 'Never written'/);
+    assert.throws(() => logger.expectLogged('Cache miss', 'warn'), /Expected a warn record/);
+
+    logger.clear();
+    assert.strictEqual(logger.entries.length, 0);
+
+    console.log('\n--> withLogger handler run in-process');
+    const harness = createTestLogger();
+    const handler = withLogger(
+        async (event: { orderId: string }) => {
+            getLogger()?.info('Processing order', { orderId: event.orderId });
+            return { statusCode: 200 };
+        },
+        { transports: [harness.transport], format: 'json' },
+    );
+    const context = createFakeLambdaContext({ awsRequestId: 'req-test-1', timeoutMs: 5000 });
+    assert.ok(context.getRemainingTimeInMillis() <= 5000);
+    await handler({ orderId: 'o-42' }, context);
+
+    const processing = harness.expectLogged('Processing order');
+    assert.strictEqual(processing.context.requestId, 'req-test-1');
+    assert.strictEqual(processing.context.functionName, 'test-function');
+    assert.strictEqual(
+        harness.expectLogged('Lambda Invocation Summary').context.outcome,
+        'success',
+    );
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
@@ -0,0 +1,92 @@
+import { createLogger, getLogger, getSpanId, MemoryTransport } from '../src/index';
+import assert from 'assert';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const run = async () => {
+    console.log('--- Timing and Span Test ---');
+
+    const memory = new MemoryTransport();
+    const logger = createLogger({ level: 'debug', transports: [memory] });
+
+    console.log('\n--> startTimer');
+    const done = logger.startTimer();
+    await sleep(20);
+    done('DynamoDB query', { table: 'orders' });
+    const [timed] = memory.entries;
+    assert.strictEqual(timed.message, 'DynamoDB query');
+    assert.strictEqual(timed.table, 'orders');
+    assert.ok(timed.durationMs >= 15, `durationMs too small: ${timed.durationMs}`);
+    memory.clear();
+
+    console.log('\n--> nested async spans');
+    const result = await logger.withSpan('checkout', async (spanLogger) => {
+        const outerSpanId = getSpanId();
+        assert.ok(outerSpanId && /^[0-9a-f]{16}$/.test(outerSpanId));
+        assert.strictEqual(getLogger(), spanLogger, 'span logger is the context logger');
+
+        const inner = await getLogger()!.withSpan('charge-card', async () => {
+            getLogger()!.info('charging');
+            return getSpanId();
+        });
+        assert.notStrictEqual(inner, outerSpanId);
+        assert.strictEqual(getSpanId(), outerSpanId, 'outer span restored after the inner one');
+        return 42;
+    });
+    assert.strictEqual(result, 42);
+    assert.strictEqual(getSpanId(), undefined);
+
+    assert.deepStrictEqual(
+        memory.entries.map((e) => [e.spanName, e.message]),
+        [
+            ['checkout', 'Span started'],
+            ['charge-card', 'Span started'],
+            ['charge-card', 'charging'],
+            ['charge-card', 'Span finished'],
+            ['checkout', 'Span finished'],
+        ],
+    );
+    const [outerStart, innerStart, , innerEnd] = memory.entries;
+    assert.strictEqual(outerStart.parentSpanId, undefined);
+    assert.strictEqual(innerStart.parentSpanId, outerStart.spanId);
+    assert.strictEqual(innerEnd.outcome, 'success');
+    assert.strictEqual(typeof innerEnd.durationMs, 'number');
+    memory.clear();
+
+    console.log('\n--> failing spans (sync and async)');
+    assert.throws(
+        () =>
+            logger.withSpan('parse', () => {
+                throw new Error('Bad input');
+            }),
+        /Bad input/,
+    );
+    await assert.rejects(
+        async () =>
+            logger.withSpan('fetch', async () => {
+                throw new Error('Timeout');
+            }),
+        /Timeout/,
+    );
+    const failures = memory.entries.filter((e) => e.message === 'Span failed');
+    assert.deepStrictEqual(
+        failures.map((e) => [e.spanName, e.outcome, e.error.message]),
+        [
+            ['parse', 'error', 'Bad input'],
+            ['fetch', 'error', 'Timeout'],
+        ],
+    );
+
+    console.log('\n--> synchronous span returns its value directly');
+    assert.strictEqual(
+        logger.withSpan('sum', () => 1 + 1),
+        2,
+    );
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
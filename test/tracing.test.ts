@@ -0,0 +1,83 @@
+import {
+    createLogger,
+    parseXRayTraceHeader,
+    MemoryTransport,
+    OpenTelemetryTraceApi,
+} from '../src/index';
+import assert from 'assert';
+
+const run = async () => {
+    console.log('--- Trace ID Injection Test ---');
+
+    const header = 'Root=1-5759e988-bd862e3fe1be46a994272793;Parent=53995c3f42cd8ad8;Sampled=1';
+    assert.deepStrictEqual(parseXRayTraceHeader(header), {
+        root: '1-5759e988-bd862e3fe1be46a994272793',
+        parent: '53995c3f42cd8ad8',
+        sampled: true,
+    });
+    assert.deepStrictEqual(parseXRayTraceHeader('Root=1-abc;Sampled=0;Lineage=a:1'), {
+        root: '1-abc',
+        sampled: false,
+    });
+
+    const original = process.env._X_AMZN_TRACE_ID;
+    try {
+        console.log('\n--> X-Ray header is read on every call');
+        const memory = new MemoryTransport();
+        const logger = createLogger({ transports: [memory] });
+
+        delete process.env._X_AMZN_TRACE_ID;
+        logger.info('No trace');
+        process.env._X_AMZN_TRACE_ID = header;
+        logger.info('First invocation');
+        process.env._X_AMZN_TRACE_ID = 'Root=1-00000000-000000000000000000000002;Sampled=0';
+        logger.info('Second invocation', { xray_parent_id: 'bound-by-caller' });
+
+        const [none, first, second] = memory.entries;
+        assert.strictEqual(none.xray_trace_id, undefined);
+        assert.strictEqual(first.xray_trace_id, '1-5759e988-bd862e3fe1be46a994272793');
+        assert.strictEqual(first.xray_parent_id, '53995c3f42cd8ad8');
+        assert.strictEqual(first.xray_sampled, true);
+        assert.strictEqual(second.xray_trace_id, '1-00000000-000000000000000000000002');
+        assert.strictEqual(second.xray_sampled, false);
+        assert.strictEqual(second.xray_parent_id, 'bound-by-caller', 'existing fields win');
+
+        console.log('\n--> X-Ray can be disabled');
+        const quiet = new MemoryTransport();
+        createLogger({ transports: [quiet], tracing: { xray: false } }).info('Untraced');
+        assert.strictEqual(quiet.entries[0].xray_trace_id, undefined);
+
+        console.log('\n--> OpenTelemetry active span');
+        let activeSpan: { traceId: string; spanId: string } | undefined;
+        const fakeTraceApi: OpenTelemetryTraceApi = {
+            getActiveSpan: () => (activeSpan ? { spanContext: () => activeSpan! } : undefined),
+        };
+        const otel = new MemoryTransport();
+        const otelLogger = createLogger({
+            transports: [otel],
+            tracing: { openTelemetry: fakeTraceApi },
+        });
+
+        otelLogger.info('Outside span');
+        activeSpan = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' };
+        otelLogger.child({ component: 'db' }).info('Inside span');
+        activeSpan = { traceId: '0'.repeat(32), spanId: '0'.repeat(16) };
+        otelLogger.info('Invalid span');
+
+        assert.strictEqual(otel.entries[0].trace_id, undefined);
+        assert.strictEqual(otel.entries[1].trace_id, '4bf92f3577b34da6a3ce929d0e0e4736');
+        assert.strictEqual(otel.entries[1].span_id, '00f067aa0ba902b7');
+        assert.strictEqual(otel.entries[1].xray_trace_id, '1-00000000-000000000000000000000002');
+        assert.strictEqual(otel.entries[2].trace_id, undefined);
+    } finally {
+        if (original === undefined) delete process.env._X_AMZN_TRACE_ID;
+        else process.env._X_AMZN_TRACE_ID = original;
+    }
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
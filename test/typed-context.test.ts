@@ -0,0 +1,109 @@
+import {
+    createLogger,
+    getLogger,
+    runWithLogger,
+    withLogger,
+    Logger,
+    MemoryTransport,
+} from '../src/index';
+import assert from 'assert';
+
+interface OrderContext {
+    userId: string;
+    orderId: string;
+    amount: number;
+}
+
+const run = async () => {
+    console.log('--- Typed Context and Reserved Keys Test ---');
+
+    console.log('\n--> typed loggers (checked by tsc)');
+    const memory = new MemoryTransport();
+    const logger = createLogger<OrderContext>({ transports: [memory] });
+    const child = logger.child({ userId: 'u-1' });
+    child.info('Order placed', { orderId: 'o-1', amount: 42 });
+    // @ts-expect-error typo in a context key
+    child.info('Order placed', { userID: 'u-2' });
+    // @ts-expect-error wrong value type
+    logger.child({ amount: '42' });
+    child.withSpan('charge', (spanLogger) => {
+        // @ts-expect-error span loggers keep the context type
+        spanLogger.warn('Retrying', { retries: 1 });
+    });
+
+    // Typed loggers still work wherever an untyped Logger is expected
+    const untyped: Logger = logger;
+    runWithLogger(logger, () => {
+        getLogger<OrderContext>()?.info('From context', { orderId: 'o-3' });
+        getLogger()?.info('Untyped access', { anything: true });
+    });
+    untyped.info('Any key', { free: 'form' });
+    assert.strictEqual(memory.entries[0].userId, 'u-1');
+    assert.strictEqual(memory.entries[0].amount, 42);
+
+    console.log('\n--> reserved keys: warn');
+    const warnings: string[] = [];
+    const originalWarn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+        const warned = new MemoryTransport();
+        const warnLogger = createLogger({
+            transports: [warned],
+            fieldRegistry: { reservedKeys: ['service'] },
+            defaultContext: { service: 'orders' },
+        });
+        warnLogger.info('Fine', { requestId: 'not bound yet' });
+        assert.strictEqual(warnings.length, 0);
+
+        warnLogger.info('Conflicts', { timestamp: 'yesterday', service: 'other' });
+        warnLogger.info('Again', { timestamp: 'today' });
+        assert.strictEqual(warnings.length, 2, 'one warning per key');
+        assert.ok(warnings[0].includes("'timestamp'"));
+        assert.ok(warnings[1].includes("'service'"));
+        assert.strictEqual(warned.entries[1].service, 'other', 'warn keeps the value');
+
+        console.log('\n--> reserved keys: drop');
+        warnings.length = 0;
+        const dropped = new MemoryTransport();
+        const dropLogger = createLogger({
+            transports: [dropped],
+            fieldRegistry: { onConflict: 'drop' },
+        });
+        const scoped = dropLogger.child({ requestId: 'req-1' });
+        const callerContext = { requestId: 'spoofed', level: 'debug', userId: 'u-9' };
+        scoped.warn('Dropped keys', callerContext);
+        scoped.child({ requestId: 'rebound' }).info('Child rebinding');
+
+        assert.strictEqual(warnings.length, 0, 'drop does not warn');
+        assert.strictEqual(dropped.entries[0].requestId, 'req-1');
+        assert.strictEqual(dropped.entries[0].level, 'warn');
+        assert.strictEqual(dropped.entries[0].userId, 'u-9');
+        assert.strictEqual(callerContext.requestId, 'spoofed', 'caller context not mutated');
+        assert.strictEqual(dropped.entries[1].requestId, 'rebound', 'bindings are not filtered');
+
+        console.log('\n--> withLogger inside an existing context keeps its requestId');
+        const nestedOptions = {
+            transports: [dropped],
+            fieldRegistry: { onConflict: 'drop' as const },
+            invocationSummary: false,
+        };
+        const handler = withLogger(async () => getLogger()?.info('Nested handler'), nestedOptions);
+        await runWithLogger(
+            dropLogger,
+            () => handler({}, { awsRequestId: 'inner-req' }),
+            'outer-req',
+        );
+        const nested = dropped.entries.find((e) => e.message === 'Nested handler');
+        assert.ok(nested);
+        assert.strictEqual(nested.requestId, 'inner-req');
+    } finally {
+        console.warn = originalWarn;
+    }
+
+    console.log('\n✅ All assertions passed!');
+};
+
+run().catch((err) => {
+    console.error('\n❌ Assertion Failed:', err.message);
+    process.exit(1);
+});
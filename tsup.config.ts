@@ -1,9 +1,12 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-    entry: ['src/index.ts'],
+    // 'testing' is a separate entry point: @vitkuz/aws-logger/testing
+    entry: ['src/index.ts', 'src/testing.ts'],
     format: ['cjs', 'esm'],
     dts: true,
     clean: true,
     sourcemap: true,
+    // Both entry points must share one copy of the async context and logger state
+    splitting: true,
 });